@@ -31,6 +31,7 @@ const config: BunPressConfig = {
       { text: 'Overview', link: '/advanced' },
       { text: 'Presets', link: '/advanced/presets' },
       { text: 'Scientific Notation', link: '/advanced/scientific-notation' },
+      { text: 'Compact Notation', link: '/advanced/compact-notation' },
       { text: 'Unit Conversion', link: '/advanced/unit-conversion' },
       { text: 'Style Rules', link: '/advanced/style-rules' },
       { text: 'Extended Persistence', link: '/advanced/extended-persistence' },
@@ -0,0 +1,112 @@
+import type { AllocateOptions } from './types'
+import { getCurrency } from './currencies'
+import { shiftDecimal, toDecimal } from './decimal'
+import { CurrencyMismatchError, Money } from './money'
+
+/**
+ * Divide an amount by ratios (70/20/10, 1/1/1) into amounts that add up to it exactly
+ * Each share is rounded down to the minor unit; the units left over go to the shares with the largest fractional parts,
+ * earlier shares first on ties
+ */
+export function allocate(
+  amount: Money | number | string | bigint,
+  ratios: (number | string)[],
+  currency: string | null = null,
+  { cashRounding = false }: AllocateOptions = {},
+): Money[] {
+  const total = toMoney(amount, currency)
+  const weights = toWeights(ratios)
+  const sum = weights.reduce((accumulated, weight) => accumulated + weight, 0n)
+  if (sum === 0n) {
+    throw new Error('Allocation ratios must add up to more than zero')
+  }
+
+  // Work in whole cash amounts when cash rounding, otherwise in minor units
+  const step = cashRounding ? cashStep(total) : 1n
+  const negative = total.minorAmount < 0n
+  const minor = negative ? -total.minorAmount : total.minorAmount
+  const units = minor / step
+
+  const shares = weights.map(weight => units * weight / sum)
+  const remainders = weights.map(weight => units * weight % sum)
+  let left = units - shares.reduce((accumulated, share) => accumulated + share, 0n)
+  const order = remainders.map((remainder, index) => ({ remainder, index }))
+    .sort((a, b) => a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1)
+  for (const { index } of order) {
+    if (left === 0n) {
+      break
+    }
+    shares[index] += 1n
+    left -= 1n
+  }
+
+  // Minor units below the cash step stay with the first share that gets anything
+  const amounts = shares.map(share => share * step)
+  const first = Math.max(0, weights.findIndex(weight => weight > 0n))
+  amounts[first] += minor - units * step
+
+  return amounts.map(share => new Money(negative ? -share : share, total.currency))
+}
+
+/**
+ * Divide an amount into a number of equal shares that add up to it exactly: $100 in three is 33.34, 33.33, 33.33
+ */
+export function split(
+  amount: Money | number | string | bigint,
+  parts: number,
+  currency: string | null = null,
+  options: AllocateOptions = {},
+): Money[] {
+  if (!Number.isSafeInteger(parts) || parts < 1) {
+    throw new Error(`Amounts split into a whole number of parts: ${parts}`)
+  }
+
+  return allocate(amount, Array.from({ length: parts }, () => 1), currency, options)
+}
+
+/**
+ * Take an amount as money, in the currency given or its own
+ */
+function toMoney(amount: Money | number | string | bigint, currency: string | null): Money {
+  if (amount instanceof Money) {
+    if (currency && getCurrency(currency)?.code !== amount.currency) {
+      throw new CurrencyMismatchError('allocate', amount.currency, currency)
+    }
+    return amount
+  }
+  if (!currency) {
+    throw new Error(`Amounts need a currency to be allocated: ${String(amount)}`)
+  }
+
+  return Money.of(amount, currency)
+}
+
+/**
+ * Scale ratios to whole numbers with the same proportions (0.7, 0.2, 0.1 -> 7, 2, 1)
+ */
+function toWeights(ratios: (number | string)[]): bigint[] {
+  if (ratios.length === 0) {
+    throw new Error('Allocation needs at least one ratio')
+  }
+
+  const decimals = ratios.map((ratio) => {
+    const decimal = toDecimal(ratio)
+    if (!decimal || decimal.negative) {
+      throw new Error(`Allocation ratios are numbers of zero or more: ${ratio}`)
+    }
+    return decimal
+  })
+  const scale = Math.max(...decimals.map(decimal => decimal.scale))
+
+  return decimals.map(decimal => shiftDecimal(decimal, scale).coefficient)
+}
+
+/**
+ * Read the cash increment of a currency in minor units (5 for CHF 0.05), 1 without one
+ */
+function cashStep(money: Money): bigint {
+  const increment = getCurrency(money.currency)?.cashIncrement
+  const decimal = increment ? toDecimal(increment) : null
+
+  return decimal ? shiftDecimal(decimal, money.minorUnits).coefficient || 1n : 1n
+}
@@ -0,0 +1,119 @@
+import type { CompactSuffix, NumbersConfig } from './types'
+
+/**
+ * Built-in compact suffixes, used when no locale or custom table is available
+ */
+export const defaultCompactSuffixes: CompactSuffix[] = [
+  { magnitude: 3, short: 'K', long: 'thousand' },
+  { magnitude: 6, short: 'M', long: 'million' },
+  { magnitude: 9, short: 'B', long: 'billion' },
+  { magnitude: 12, short: 'T', long: 'trillion' },
+]
+
+// Suffix tables derived from Intl, keyed by locale
+const localeSuffixCache = new Map<string, CompactSuffix[]>()
+
+/**
+ * Check whether Intl.NumberFormat supports compact notation for a locale
+ */
+export function supportsIntlCompact(locale: string): boolean {
+  try {
+    return new Intl.NumberFormat(locale, { notation: 'compact' }).resolvedOptions().notation === 'compact'
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Read the compact unit and the magnitude it stands for from a formatted power of ten
+ */
+function readCompactUnit(formatter: Intl.NumberFormat, magnitude: number): { unit: string, magnitude: number } | null {
+  const parts = formatter.formatToParts(10 ** magnitude)
+  const unit = parts.find(part => part.type === 'compact')?.value
+  if (!unit) {
+    return null
+  }
+
+  // "10万" means the unit itself stands for 10^4, not 10^5
+  const integerDigits = parts.filter(part => part.type === 'integer').map(part => part.value).join('')
+  return { unit, magnitude: magnitude - (integerDigits.length - 1) }
+}
+
+/**
+ * Derive the compact suffix table of a locale from Intl.NumberFormat
+ */
+export function getLocaleCompactSuffixes(locale: string): CompactSuffix[] {
+  const cached = localeSuffixCache.get(locale)
+  if (cached) {
+    return cached
+  }
+
+  const shortFormatter = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay: 'short' })
+  const longFormatter = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay: 'long' })
+  const suffixes: CompactSuffix[] = []
+
+  for (let magnitude = 3; magnitude <= 15; magnitude++) {
+    const short = readCompactUnit(shortFormatter, magnitude)
+    const long = readCompactUnit(longFormatter, magnitude)
+    const unitMagnitude = short?.magnitude ?? long?.magnitude
+
+    if (unitMagnitude === undefined || suffixes.some(suffix => suffix.magnitude === unitMagnitude)) {
+      continue
+    }
+
+    // Keep plural long forms ("2 Millionen") so they parse as well
+    const plural = longFormatter.formatToParts(2 * 10 ** unitMagnitude).find(part => part.type === 'compact')?.value
+
+    suffixes.push({
+      magnitude: unitMagnitude,
+      short: short?.unit ?? long?.unit ?? '',
+      long: long?.unit ?? short?.unit ?? '',
+      aliases: plural && plural !== long?.unit ? [plural] : undefined,
+    })
+  }
+
+  localeSuffixCache.set(locale, suffixes)
+  return suffixes
+}
+
+/**
+ * Resolve the suffix table for a configuration: custom table, then locale, then built-in
+ */
+export function resolveCompactSuffixes(config: NumbersConfig): CompactSuffix[] {
+  if (config.compactSuffixes && config.compactSuffixes.length > 0) {
+    return config.compactSuffixes
+  }
+
+  if (config.locale && supportsIntlCompact(config.locale)) {
+    return getLocaleCompactSuffixes(config.locale)
+  }
+
+  return defaultCompactSuffixes
+}
+
+/**
+ * Split a trailing compact suffix ("1.2K", "3 million") off a string
+ */
+export function matchCompactSuffix(value: string, suffixes: CompactSuffix[]): { number: string, magnitude: number } | null {
+  const trimmed = value.trim()
+
+  for (const { text, magnitude } of compactSuffixSpellings(suffixes)) {
+    if (trimmed.endsWith(text)) {
+      return { number: trimmed.slice(0, -text.length).trim(), magnitude }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Every spelling of a suffix table with its magnitude, longest first so "Mio." wins over "M"
+ */
+export function compactSuffixSpellings(suffixes: CompactSuffix[]): { text: string, magnitude: number }[] {
+  return suffixes
+    .flatMap(suffix => [suffix.short, suffix.long, ...(suffix.aliases ?? [])]
+      .filter(Boolean)
+      .map(text => ({ text, magnitude: suffix.magnitude })))
+    .sort((a, b) => b.text.length - a.text.length)
+}
@@ -10,8 +10,11 @@ export const defaultConfig: NumbersConfig = {
   decimalCharacterAlternative: null,
   digitGroupSeparator: ',',
   digitGroupSpacing: '3',
+  minimumGroupingDigits: 1,
   currencySymbol: '',
   currencySymbolPlacement: 'p',
+  currencyDisplay: null,
+  currencySpacing: null,
 
   // Number constraints
   minimumValue: '-10000000000000',
@@ -20,6 +23,9 @@ export const defaultConfig: NumbersConfig = {
   // Decimal behavior
   allowDecimalPadding: true,
   alwaysAllowDecimalCharacter: false,
+  minimumSignificantDigits: null,
+  maximumSignificantDigits: null,
+  roundingPriority: 'auto',
 
   // Display and interaction
   caretPositionOnFocus: null,
@@ -43,6 +49,11 @@ export const defaultConfig: NumbersConfig = {
   modifyValueOnUpDownArrow: true,
   upDownStep: 'progressive',
   roundingMethod: 'S',
+  roundingIncrement: null,
+  cashRounding: false,
+  fractionMode: null,
+  maximumDenominator: 16,
+  fixedDenominator: null,
   isCancellable: true,
   negativePositiveSignBehavior: false,
   keyboardShortcuts: {
@@ -77,6 +88,10 @@ export const defaultConfig: NumbersConfig = {
   noEventListeners: false,
   formatOnPageLoad: true,
 
+  // Format patterns
+  pattern: null,
+  formatPattern: null,
+
   // Styling
   styleRules: null,
   valuesToStrings: null,
@@ -89,6 +104,7 @@ export const defaultConfig: NumbersConfig = {
   locale: 'en-US',
   useGrouping: true,
   numberingSystem: null,
+  percentSign: '%',
 
   // Persistence
   persistenceMethod: null,
@@ -97,10 +113,34 @@ export const defaultConfig: NumbersConfig = {
   // Scientific notation
   useScientificNotation: false,
   scientificNotationThreshold: 1e6,
+  scientificNotationSmallThreshold: 0.001,
+  scientificMantissaDigits: null,
+  exponentDisplay: 'e',
+
+  // Engineering notation
+  engineeringNotation: false,
+  engineeringNotationThreshold: 1e6,
+  engineeringNotationSmallThreshold: 0.001,
+  engineeringMantissaDigits: null,
+
+  // SI prefixes
+  siUnitPrefixes: false,
+  siUnitPrefixThreshold: 1000,
+  siUnitPrefixSmallThreshold: 1,
+  siUnitPrefixMantissaDigits: null,
+
+  // Compact notation
+  useCompactNotation: false,
+  compactDisplay: 'short',
+  compactNotationThreshold: 1000,
+  compactDecimalPlaces: 1,
+  compactSuffixes: null,
 
   // Multiple currencies
   currencies: null,
   activeCurrency: undefined,
+  convertOnCurrencyChange: false,
+  exchangeRateProvider: null,
 }
 
 // eslint-disable-next-line ts/no-top-level-await
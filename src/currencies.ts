@@ -0,0 +1,358 @@
+import type { CurrencyData, CurrencyDisplay, CurrencyDisplayData, LocaleCurrencyData } from './types'
+
+/**
+ * Smallest cash amounts of currencies whose coins don't go down to their minor unit, from the CLDR currency data
+ * Currencies that are not listed are paid in cash to their minor unit
+ */
+export const cashRoundingIncrements: Record<string, string> = {
+  AMD: '1',
+  CAD: '0.05',
+  CHF: '0.05',
+  COP: '1',
+  CRC: '1',
+  CZK: '1',
+  DKK: '0.50',
+  GYD: '1',
+  HUF: '1',
+  IDR: '1',
+  MNT: '1',
+  MUR: '1',
+  NOK: '1',
+  PKR: '1',
+  SEK: '1',
+  TWD: '1',
+  TZS: '1',
+  UZS: '1',
+}
+
+// ISO 4217 currencies in circulation: English name, minor units, symbol and narrow symbol, from the CLDR data for English
+const isoCurrencies: Record<string, [name: string, minorUnits: number, symbol: string, narrowSymbol: string]> = {
+  AED: ['United Arab Emirates Dirham', 2, 'AED', 'AED'],
+  AFN: ['Afghan Afghani', 2, 'AFN', '؋'],
+  ALL: ['Albanian Lek', 2, 'ALL', 'ALL'],
+  AMD: ['Armenian Dram', 2, 'AMD', '֏'],
+  AOA: ['Angolan Kwanza', 2, 'AOA', 'Kz'],
+  ARS: ['Argentine Peso', 2, 'ARS', '$'],
+  AUD: ['Australian Dollar', 2, 'A$', '$'],
+  AWG: ['Aruban Florin', 2, 'AWG', 'AWG'],
+  AZN: ['Azerbaijani Manat', 2, 'AZN', '₼'],
+  BAM: ['Bosnia-Herzegovina Convertible Mark', 2, 'BAM', 'KM'],
+  BBD: ['Barbadian Dollar', 2, 'BBD', '$'],
+  BDT: ['Bangladeshi Taka', 2, 'BDT', '৳'],
+  BHD: ['Bahraini Dinar', 3, 'BHD', 'BHD'],
+  BIF: ['Burundian Franc', 0, 'BIF', 'BIF'],
+  BMD: ['Bermudan Dollar', 2, 'BMD', '$'],
+  BND: ['Brunei Dollar', 2, 'BND', '$'],
+  BOB: ['Bolivian Boliviano', 2, 'BOB', 'Bs'],
+  BRL: ['Brazilian Real', 2, 'R$', 'R$'],
+  BSD: ['Bahamian Dollar', 2, 'BSD', '$'],
+  BTN: ['Bhutanese Ngultrum', 2, 'BTN', 'BTN'],
+  BWP: ['Botswanan Pula', 2, 'BWP', 'P'],
+  BYN: ['Belarusian Ruble', 2, 'BYN', 'BYN'],
+  BZD: ['Belize Dollar', 2, 'BZD', '$'],
+  CAD: ['Canadian Dollar', 2, 'CA$', '$'],
+  CDF: ['Congolese Franc', 2, 'CDF', 'CDF'],
+  CHF: ['Swiss Franc', 2, 'CHF', 'CHF'],
+  CLP: ['Chilean Peso', 0, 'CLP', '$'],
+  CNY: ['Chinese Yuan', 2, 'CN¥', '¥'],
+  COP: ['Colombian Peso', 2, 'COP', '$'],
+  CRC: ['Costa Rican Colón', 2, 'CRC', '₡'],
+  CUP: ['Cuban Peso', 2, 'CUP', '$'],
+  CVE: ['Cape Verdean Escudo', 2, 'CVE', 'CVE'],
+  CZK: ['Czech Koruna', 2, 'CZK', 'Kč'],
+  DJF: ['Djiboutian Franc', 0, 'DJF', 'DJF'],
+  DKK: ['Danish Krone', 2, 'DKK', 'kr'],
+  DOP: ['Dominican Peso', 2, 'DOP', '$'],
+  DZD: ['Algerian Dinar', 2, 'DZD', 'DZD'],
+  EGP: ['Egyptian Pound', 2, 'EGP', 'E£'],
+  ERN: ['Eritrean Nakfa', 2, 'ERN', 'ERN'],
+  ETB: ['Ethiopian Birr', 2, 'ETB', 'ETB'],
+  EUR: ['Euro', 2, '€', '€'],
+  FJD: ['Fijian Dollar', 2, 'FJD', '$'],
+  FKP: ['Falkland Islands Pound', 2, 'FKP', '£'],
+  GBP: ['British Pound', 2, '£', '£'],
+  GEL: ['Georgian Lari', 2, 'GEL', '₾'],
+  GHS: ['Ghanaian Cedi', 2, 'GHS', 'GH₵'],
+  GIP: ['Gibraltar Pound', 2, 'GIP', '£'],
+  GMD: ['Gambian Dalasi', 2, 'GMD', 'GMD'],
+  GNF: ['Guinean Franc', 0, 'GNF', 'FG'],
+  GTQ: ['Guatemalan Quetzal', 2, 'GTQ', 'Q'],
+  GYD: ['Guyanaese Dollar', 2, 'GYD', '$'],
+  HKD: ['Hong Kong Dollar', 2, 'HK$', '$'],
+  HNL: ['Honduran Lempira', 2, 'HNL', 'L'],
+  HTG: ['Haitian Gourde', 2, 'HTG', 'HTG'],
+  HUF: ['Hungarian Forint', 2, 'HUF', 'Ft'],
+  IDR: ['Indonesian Rupiah', 2, 'IDR', 'Rp'],
+  ILS: ['Israeli New Shekel', 2, '₪', '₪'],
+  INR: ['Indian Rupee', 2, '₹', '₹'],
+  IQD: ['Iraqi Dinar', 3, 'IQD', 'IQD'],
+  IRR: ['Iranian Rial', 2, 'IRR', 'IRR'],
+  ISK: ['Icelandic Króna', 0, 'ISK', 'kr'],
+  JMD: ['Jamaican Dollar', 2, 'JMD', '$'],
+  JOD: ['Jordanian Dinar', 3, 'JOD', 'JOD'],
+  JPY: ['Japanese Yen', 0, '¥', '¥'],
+  KES: ['Kenyan Shilling', 2, 'KES', 'KES'],
+  KGS: ['Kyrgyz Som', 2, 'KGS', '⃀'],
+  KHR: ['Cambodian Riel', 2, 'KHR', '៛'],
+  KMF: ['Comorian Franc', 0, 'KMF', 'CF'],
+  KPW: ['North Korean Won', 2, 'KPW', '₩'],
+  KRW: ['South Korean Won', 0, '₩', '₩'],
+  KWD: ['Kuwaiti Dinar', 3, 'KWD', 'KWD'],
+  KYD: ['Cayman Islands Dollar', 2, 'KYD', '$'],
+  KZT: ['Kazakhstani Tenge', 2, 'KZT', '₸'],
+  LAK: ['Laotian Kip', 2, 'LAK', '₭'],
+  LBP: ['Lebanese Pound', 2, 'LBP', 'L£'],
+  LKR: ['Sri Lankan Rupee', 2, 'LKR', 'Rs'],
+  LRD: ['Liberian Dollar', 2, 'LRD', '$'],
+  LSL: ['Lesotho Loti', 2, 'LSL', 'LSL'],
+  LYD: ['Libyan Dinar', 3, 'LYD', 'LYD'],
+  MAD: ['Moroccan Dirham', 2, 'MAD', 'MAD'],
+  MDL: ['Moldovan Leu', 2, 'MDL', 'MDL'],
+  MGA: ['Malagasy Ariary', 2, 'MGA', 'Ar'],
+  MKD: ['Macedonian Denar', 2, 'MKD', 'MKD'],
+  MMK: ['Myanmar Kyat', 2, 'MMK', 'K'],
+  MNT: ['Mongolian Tugrik', 2, 'MNT', '₮'],
+  MOP: ['Macanese Pataca', 2, 'MOP', 'MOP'],
+  MRU: ['Mauritanian Ouguiya', 2, 'MRU', 'MRU'],
+  MUR: ['Mauritian Rupee', 2, 'MUR', 'Rs'],
+  MVR: ['Maldivian Rufiyaa', 2, 'MVR', 'MVR'],
+  MWK: ['Malawian Kwacha', 2, 'MWK', 'MWK'],
+  MXN: ['Mexican Peso', 2, 'MX$', '$'],
+  MYR: ['Malaysian Ringgit', 2, 'MYR', 'RM'],
+  MZN: ['Mozambican Metical', 2, 'MZN', 'MZN'],
+  NAD: ['Namibian Dollar', 2, 'NAD', '$'],
+  NGN: ['Nigerian Naira', 2, 'NGN', '₦'],
+  NIO: ['Nicaraguan Córdoba', 2, 'NIO', 'C$'],
+  NOK: ['Norwegian Krone', 2, 'NOK', 'kr'],
+  NPR: ['Nepalese Rupee', 2, 'NPR', 'Rs'],
+  NZD: ['New Zealand Dollar', 2, 'NZ$', '$'],
+  OMR: ['Omani Rial', 3, 'OMR', 'OMR'],
+  PAB: ['Panamanian Balboa', 2, 'PAB', 'PAB'],
+  PEN: ['Peruvian Sol', 2, 'PEN', 'PEN'],
+  PGK: ['Papua New Guinean Kina', 2, 'PGK', 'PGK'],
+  PHP: ['Philippine Peso', 2, '₱', '₱'],
+  PKR: ['Pakistani Rupee', 2, 'PKR', 'Rs'],
+  PLN: ['Polish Zloty', 2, 'PLN', 'zł'],
+  PYG: ['Paraguayan Guarani', 0, 'PYG', '₲'],
+  QAR: ['Qatari Riyal', 2, 'QAR', 'QAR'],
+  RON: ['Romanian Leu', 2, 'RON', 'lei'],
+  RSD: ['Serbian Dinar', 2, 'RSD', 'RSD'],
+  RUB: ['Russian Ruble', 2, 'RUB', '₽'],
+  RWF: ['Rwandan Franc', 0, 'RWF', 'RF'],
+  SAR: ['Saudi Riyal', 2, 'SAR', 'SAR'],
+  SBD: ['Solomon Islands Dollar', 2, 'SBD', '$'],
+  SCR: ['Seychellois Rupee', 2, 'SCR', 'SCR'],
+  SDG: ['Sudanese Pound', 2, 'SDG', 'SDG'],
+  SEK: ['Swedish Krona', 2, 'SEK', 'kr'],
+  SGD: ['Singapore Dollar', 2, 'SGD', '$'],
+  SHP: ['St. Helena Pound', 2, 'SHP', '£'],
+  SLE: ['Sierra Leonean Leone', 2, 'SLE', 'SLE'],
+  SOS: ['Somali Shilling', 2, 'SOS', 'SOS'],
+  SRD: ['Surinamese Dollar', 2, 'SRD', '$'],
+  SSP: ['South Sudanese Pound', 2, 'SSP', '£'],
+  STN: ['São Tomé & Príncipe Dobra', 2, 'STN', 'Db'],
+  SVC: ['Salvadoran Colón', 2, 'SVC', 'SVC'],
+  SYP: ['Syrian Pound', 2, 'SYP', '£'],
+  SZL: ['Swazi Lilangeni', 2, 'SZL', 'SZL'],
+  THB: ['Thai Baht', 2, 'THB', '฿'],
+  TJS: ['Tajikistani Somoni', 2, 'TJS', 'TJS'],
+  TMT: ['Turkmenistani Manat', 2, 'TMT', 'TMT'],
+  TND: ['Tunisian Dinar', 3, 'TND', 'TND'],
+  TOP: ['Tongan Paʻanga', 2, 'TOP', 'T$'],
+  TRY: ['Turkish Lira', 2, 'TRY', '₺'],
+  TTD: ['Trinidad & Tobago Dollar', 2, 'TTD', '$'],
+  TWD: ['New Taiwan Dollar', 2, 'NT$', '$'],
+  TZS: ['Tanzanian Shilling', 2, 'TZS', 'TZS'],
+  UAH: ['Ukrainian Hryvnia', 2, 'UAH', '₴'],
+  UGX: ['Ugandan Shilling', 0, 'UGX', 'UGX'],
+  USD: ['US Dollar', 2, '$', '$'],
+  UYU: ['Uruguayan Peso', 2, 'UYU', '$'],
+  UZS: ['Uzbekistani Som', 2, 'UZS', 'UZS'],
+  VES: ['Venezuelan Bolívar', 2, 'VES', 'VES'],
+  VND: ['Vietnamese Dong', 0, '₫', '₫'],
+  VUV: ['Vanuatu Vatu', 0, 'VUV', 'VUV'],
+  WST: ['Samoan Tala', 2, 'WST', 'WST'],
+  XAF: ['Central African CFA Franc', 0, 'FCFA', 'FCFA'],
+  XCD: ['East Caribbean Dollar', 2, 'EC$', '$'],
+  XCG: ['Caribbean Guilder', 2, 'Cg.', 'Cg.'],
+  XOF: ['West African CFA Franc', 0, 'F CFA', 'F CFA'],
+  XPF: ['CFP Franc', 0, 'CFPF', 'CFPF'],
+  YER: ['Yemeni Rial', 2, 'YER', 'YER'],
+  ZAR: ['South African Rand', 2, 'ZAR', 'R'],
+  ZMW: ['Zambian Kwacha', 2, 'ZMW', 'ZK'],
+  ZWG: ['Zimbabwean Gold', 2, 'ZWG', 'ZWG'],
+}
+
+// Currencies added or changed with registerCurrency, looked up before the ISO ones
+const registeredCurrencies = new Map<string, CurrencyData>()
+const localeCurrencyCache = new Map<string, LocaleCurrencyData>()
+const currencyDisplayCache = new Map<string, CurrencyDisplayData>()
+
+/**
+ * Get the cash rounding increment of a currency code, null when cash rounds like other amounts
+ */
+export function getCashRoundingIncrement(code: string): string | null {
+  return getCurrency(code)?.cashIncrement ?? null
+}
+
+/**
+ * Look up a registered or ISO 4217 currency by its code, in any case
+ */
+export function getCurrency(code: string): CurrencyData | null {
+  const upper = code.toUpperCase()
+  const registered = registeredCurrencies.get(upper)
+  if (registered) {
+    return registered
+  }
+  if (!Object.hasOwn(isoCurrencies, upper)) {
+    return null
+  }
+
+  const [name, minorUnits, symbol, narrowSymbol] = isoCurrencies[upper]
+  return { code: upper, name, minorUnits, cashIncrement: cashRoundingIncrements[upper] ?? null, symbol, narrowSymbol }
+}
+
+/**
+ * Add a currency, or change one, under a three-letter code; options left out keep the ISO data or the defaults:
+ * two minor units, no cash increment and the code as the symbol
+ */
+export function registerCurrency(code: string, currency: Partial<Omit<CurrencyData, 'code'>> = {}): CurrencyData {
+  const upper = code.toUpperCase()
+  if (!/^[A-Z]{3}$/.test(upper)) {
+    throw new Error(`Currency codes have three letters: ${code}`)
+  }
+
+  const base = getCurrency(upper)
+  const symbol = currency.symbol ?? base?.symbol ?? upper
+  const registered: CurrencyData = {
+    code: upper,
+    name: currency.name ?? base?.name ?? upper,
+    minorUnits: currency.minorUnits ?? base?.minorUnits ?? 2,
+    cashIncrement: currency.cashIncrement !== undefined ? currency.cashIncrement : base?.cashIncrement ?? null,
+    symbol,
+    narrowSymbol: currency.narrowSymbol ?? (currency.symbol ? symbol : base?.narrowSymbol ?? symbol),
+  }
+  registeredCurrencies.set(upper, registered)
+  localeCurrencyCache.clear()
+  currencyDisplayCache.clear()
+
+  return registered
+}
+
+/**
+ * Remove a registered currency, returning whether there was one; ISO currencies go back to their ISO data
+ */
+export function unregisterCurrency(code: string): boolean {
+  localeCurrencyCache.clear()
+  currencyDisplayCache.clear()
+  return registeredCurrencies.delete(code.toUpperCase())
+}
+
+/**
+ * List the ISO 4217 currencies, then the registered ones that are not ISO currencies
+ */
+export function listCurrencies(): CurrencyData[] {
+  const added = [...registeredCurrencies.keys()].filter(code => !Object.hasOwn(isoCurrencies, code))
+  return [...Object.keys(isoCurrencies), ...added].map(code => getCurrency(code)!)
+}
+
+/**
+ * Read the name, symbols and placement a locale uses for a currency, null for unknown codes
+ * Where the locale has no symbol or name of its own and writes the code, the registered ones stand in
+ */
+export function getLocaleCurrencyData(code: string, locale: string): LocaleCurrencyData | null {
+  const currency = getCurrency(code)
+  if (!currency) {
+    return null
+  }
+
+  const key = `${locale}|${currency.code}`
+  const cached = localeCurrencyCache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const symbol = readCurrencyParts(currency, locale, 'symbol', '1', {})
+  const narrowSymbol = readCurrencyParts(currency, locale, 'narrowSymbol', '1', {})
+  const name = new Intl.DisplayNames(locale, { type: 'currency' }).of(currency.code) ?? currency.code
+
+  const result: LocaleCurrencyData = {
+    ...currency,
+    name: name === currency.code ? currency.name : name,
+    symbol: symbol.text,
+    narrowSymbol: narrowSymbol.text,
+    placement: symbol.placement,
+    spacing: symbol.spacing,
+  }
+  localeCurrencyCache.set(key, result)
+
+  return result
+}
+
+/**
+ * Write a currency in one display form the way a locale does, null for unknown codes
+ * Names agree with the amount they go with (1.00 US dollars, 1 US dollar); without one they take the plural of 2
+ */
+export function getCurrencyDisplay(code: string, locale: string, display: CurrencyDisplay, amount: string = '2'): CurrencyDisplayData | null {
+  const currency = getCurrency(code)
+  if (!currency) {
+    return null
+  }
+
+  // Plural rules count the fraction digits written, so 1.00 is plural in English
+  const fractionDigits = amount.split('.')[1]?.length ?? 0
+  const digits = { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }
+  const plural = display === 'name' ? new Intl.PluralRules(locale, digits).select(Number(amount)) : ''
+
+  const key = `${locale}|${currency.code}|${display}|${plural}`
+  const cached = currencyDisplayCache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const result = readCurrencyParts(currency, locale, display, amount, display === 'name' ? digits : {})
+  currencyDisplayCache.set(key, result)
+
+  return result
+}
+
+/**
+ * List every form a locale writes a currency in, longest first, for reading formatted amounts back
+ */
+export function listCurrencyTexts(code: string, locale: string): string[] {
+  const texts = (['symbol', 'narrowSymbol', 'code'] as const).map(display => getCurrencyDisplay(code, locale, display)?.text ?? '')
+  for (const amount of ['0', '1', '2', '5', '1.5', '21', '22', '100']) {
+    texts.push(getCurrencyDisplay(code, locale, 'name', amount)?.text ?? '')
+  }
+
+  return [...new Set(texts)].filter(Boolean).sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Read a currency display form, its placement and the text between it and the digits from Intl
+ */
+function readCurrencyParts(
+  currency: CurrencyData,
+  locale: string,
+  display: CurrencyDisplay,
+  amount: string,
+  digits: Intl.NumberFormatOptions,
+): CurrencyDisplayData {
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency: currency.code, currencyDisplay: display, ...digits })
+    .formatToParts(amount as Intl.StringNumericLiteral)
+  const currencyIndex = parts.findIndex(part => part.type === 'currency')
+  const placement = currencyIndex < parts.findIndex(part => part.type === 'integer') ? 'p' : 's'
+
+  // Only the literal directly between the currency and the digits counts as spacing
+  const between = parts[placement === 'p' ? currencyIndex + 1 : currencyIndex - 1]
+  const spacing = between?.type === 'literal' ? between.value : ''
+  const text = parts[currencyIndex]?.value ?? currency.code
+  if (display === 'code' || text !== currency.code) {
+    return { text, placement, spacing }
+  }
+
+  // Locales space codes from the digits, but a symbol standing in for one only when a letter touches the digits
+  const fallback = display === 'name' ? currency.name : currency[display]
+  const touching = placement === 'p' ? fallback.slice(-1) : fallback.charAt(0)
+  return { text: fallback, placement, spacing: display === 'name' || /\p{L}/u.test(touching) ? spacing : '' }
+}
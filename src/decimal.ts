@@ -0,0 +1,394 @@
+import type { DecimalValue, RoundingMethod } from './types'
+
+/**
+ * Direction applied when digits have to be dropped while rounding
+ */
+type RoundingDirection =
+  | 'up' // Away from zero
+  | 'down' // Toward zero
+  | 'ceiling' // Toward positive infinity
+  | 'floor' // Toward negative infinity
+  | 'halfUp' // Nearest, ties away from zero
+  | 'halfDown' // Nearest, ties toward zero
+  | 'halfEven' // Nearest, ties to the even neighbour
+  | 'halfOdd' // Nearest, ties to the odd neighbour
+  | 'halfCeiling' // Nearest, ties toward positive infinity
+  | 'halfFloor' // Nearest, ties toward negative infinity
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i
+const LEADING_DECIMAL_PATTERN = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?/i
+
+// Powers of ten past which values read as infinite and below which as zero, so exponents never build huge coefficients
+export const MAX_DECIMAL_EXPONENT = 1000
+
+// Increment used by the N05, U05 and D05 rounding methods
+const FIVE_HUNDREDTHS: DecimalValue = { negative: false, coefficient: 5n, scale: 2 }
+
+/**
+ * Build a normalized decimal value (zero is never negative, scale is never negative)
+ */
+function createDecimal(negative: boolean, coefficient: bigint, scale: number): DecimalValue {
+  if (scale < 0) {
+    coefficient *= 10n ** BigInt(-scale)
+    scale = 0
+  }
+
+  return { negative: negative && coefficient !== 0n, coefficient, scale }
+}
+
+/**
+ * Build a decimal value within MAX_DECIMAL_EXPONENT: null past it, zero below it
+ */
+function boundDecimal(negative: boolean, coefficient: bigint, scale: number): DecimalValue | null {
+  if (coefficient === 0n) {
+    return createDecimal(negative, 0n, scale > MAX_DECIMAL_EXPONENT ? 0 : Math.max(scale, 0))
+  }
+
+  const magnitude = coefficient.toString().length - 1 - scale
+  if (magnitude > MAX_DECIMAL_EXPONENT) {
+    return null
+  }
+
+  return magnitude < -MAX_DECIMAL_EXPONENT ? createDecimal(negative, 0n, 0) : createDecimal(negative, coefficient, scale)
+}
+
+/**
+ * Parse a plain or exponential decimal string such as "-1234.5678" or "1.5e-7"
+ */
+export function parseDecimal(input: string): DecimalValue | null {
+  const match = input.trim().match(DECIMAL_PATTERN)
+  if (!match) {
+    return null
+  }
+
+  const [, sign, integerDigits = '', fractionDigits = '', exponent] = match
+  if (!integerDigits && !fractionDigits) {
+    return null
+  }
+
+  const coefficient = BigInt(`${integerDigits}${fractionDigits}`)
+  const scale = fractionDigits.length - (exponent ? Number.parseInt(exponent, 10) : 0)
+
+  return boundDecimal(sign === '-', coefficient, scale)
+}
+
+/**
+ * Parse the longest decimal prefix of a string, mirroring Number.parseFloat
+ */
+export function parseLeadingDecimal(input: string): DecimalValue | null {
+  const match = input.trimStart().match(LEADING_DECIMAL_PATTERN)
+  return match ? parseDecimal(match[0]) : null
+}
+
+/**
+ * Convert a number, bigint or decimal string into an exact decimal value
+ * Numbers use their shortest round-trip representation, so 1.005 stays 1.005
+ */
+export function toDecimal(value: number | string | bigint): DecimalValue | null {
+  if (typeof value === 'bigint') {
+    return createDecimal(value < 0n, value < 0n ? -value : value, 0)
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? parseDecimal(String(value)) : null
+  }
+
+  return parseDecimal(value)
+}
+
+/**
+ * Render a decimal value as a plain string without exponent
+ */
+export function decimalToString(value: DecimalValue): string {
+  const { integer, fraction } = splitDecimal(value)
+  return `${value.negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`
+}
+
+/**
+ * Convert a decimal value to the nearest IEEE double
+ */
+export function decimalToNumber(value: DecimalValue): number {
+  return Number(decimalToString(value))
+}
+
+/**
+ * Split the absolute value into its integer and fraction digit strings
+ */
+export function splitDecimal(value: DecimalValue): { integer: string, fraction: string } {
+  const digits = value.coefficient.toString().padStart(value.scale + 1, '0')
+  const pointIndex = digits.length - value.scale
+
+  return {
+    integer: digits.slice(0, pointIndex),
+    fraction: digits.slice(pointIndex),
+  }
+}
+
+/**
+ * Check whether a decimal value is zero
+ */
+export function isZeroDecimal(value: DecimalValue): boolean {
+  return value.coefficient === 0n
+}
+
+/**
+ * Get the power of ten of the leading digit (1234.5 -> 3, 0.012 -> -2), 0 for zero
+ */
+export function decimalMagnitude(value: DecimalValue): number {
+  return isZeroDecimal(value) ? 0 : value.coefficient.toString().length - 1 - value.scale
+}
+
+/**
+ * Return the absolute value
+ */
+export function absDecimal(value: DecimalValue): DecimalValue {
+  return createDecimal(false, value.coefficient, value.scale)
+}
+
+/**
+ * Return the value with its sign flipped
+ */
+export function negateDecimal(value: DecimalValue): DecimalValue {
+  return createDecimal(!value.negative, value.coefficient, value.scale)
+}
+
+/**
+ * Multiply by a power of ten by moving the decimal point
+ */
+export function shiftDecimal(value: DecimalValue, places: number): DecimalValue {
+  return createDecimal(value.negative, value.coefficient, value.scale - places)
+}
+
+/**
+ * Move the decimal point by a number of places that comes from input, such as a written exponent
+ * Returns null past MAX_DECIMAL_EXPONENT and zero below it
+ */
+export function shiftDecimalWithinRange(value: DecimalValue, places: number): DecimalValue | null {
+  return boundDecimal(value.negative, value.coefficient, value.scale - places)
+}
+
+/**
+ * Get the signed coefficient of a value expressed at a larger or equal scale
+ */
+function toScaledBigInt(value: DecimalValue, scale: number): bigint {
+  const scaled = value.coefficient * 10n ** BigInt(scale - value.scale)
+  return value.negative ? -scaled : scaled
+}
+
+/**
+ * Compare two decimal values, returning -1, 0 or 1
+ */
+export function compareDecimal(a: DecimalValue, b: DecimalValue): -1 | 0 | 1 {
+  const scale = Math.max(a.scale, b.scale)
+  const left = toScaledBigInt(a, scale)
+  const right = toScaledBigInt(b, scale)
+
+  if (left === right) {
+    return 0
+  }
+
+  return left < right ? -1 : 1
+}
+
+/**
+ * Divide two non-negative integers and round the quotient in the given direction
+ */
+function divideAndRound(numerator: bigint, divisor: bigint, negative: boolean, direction: RoundingDirection): bigint {
+  const quotient = numerator / divisor
+  const remainder = numerator % divisor
+
+  if (remainder === 0n) {
+    return quotient
+  }
+
+  // Compare the remainder with half of the divisor
+  const twice = remainder * 2n
+  const half = twice === divisor ? 0 : twice > divisor ? 1 : -1
+
+  let roundAway: boolean
+  switch (direction) {
+    case 'up':
+      roundAway = true
+      break
+    case 'down':
+      roundAway = false
+      break
+    case 'ceiling':
+      roundAway = !negative
+      break
+    case 'floor':
+      roundAway = negative
+      break
+    case 'halfUp':
+      roundAway = half >= 0
+      break
+    case 'halfDown':
+      roundAway = half > 0
+      break
+    case 'halfEven':
+      roundAway = half > 0 || (half === 0 && quotient % 2n === 1n)
+      break
+    case 'halfOdd':
+      roundAway = half > 0 || (half === 0 && quotient % 2n === 0n)
+      break
+    case 'halfCeiling':
+      roundAway = half > 0 || (half === 0 && !negative)
+      break
+    case 'halfFloor':
+      roundAway = half > 0 || (half === 0 && negative)
+      break
+  }
+
+  return roundAway ? quotient + 1n : quotient
+}
+
+/**
+ * Resolve the direction a rounding method drops digits in
+ */
+function resolveDirection(roundingMethod: RoundingMethod): RoundingDirection {
+  switch (roundingMethod) {
+    case 'A': // Round-Half-Up Asymmetric
+    case 'halfCeiling':
+      return 'halfCeiling'
+    case 's': // Round-Half-Down Symmetric
+    case 'halfTowardZero':
+      return 'halfDown'
+    case 'a': // Round-Half-Down Asymmetric
+    case 'halfFloor':
+      return 'halfFloor'
+    case 'B': // Round-Half-Even (Bankers Rounding)
+      return 'halfEven'
+    case 'halfOdd':
+      return 'halfOdd'
+    case 'U': // Round Up, away from zero
+    case 'U05':
+      return 'up'
+    case 'D': // Round Down, toward zero
+    case 'D05':
+      return 'down'
+    case 'C': // Round to Ceiling
+      return 'ceiling'
+    case 'F': // Round to Floor
+      return 'floor'
+    case 'S': // Round-Half-Up Symmetric
+    case 'N05':
+    case 'halfAwayFromZero':
+    default:
+      return 'halfUp'
+  }
+}
+
+/**
+ * Round to a fixed number of decimal places in the given direction
+ * The result always carries exactly `places` fraction digits
+ */
+function rescaleDecimal(value: DecimalValue, places: number, direction: RoundingDirection): DecimalValue {
+  if (places >= value.scale) {
+    return createDecimal(value.negative, value.coefficient * 10n ** BigInt(places - value.scale), places)
+  }
+
+  const divisor = 10n ** BigInt(value.scale - places)
+  return createDecimal(value.negative, divideAndRound(value.coefficient, divisor, value.negative, direction), places)
+}
+
+/**
+ * Round to the nearest multiple of a positive increment in the given direction
+ */
+function roundToIncrement(value: DecimalValue, increment: DecimalValue, direction: RoundingDirection): DecimalValue {
+  const scale = Math.max(value.scale, increment.scale)
+  const numerator = value.coefficient * 10n ** BigInt(scale - value.scale)
+  const divisor = increment.coefficient * 10n ** BigInt(scale - increment.scale)
+  const multiple = divideAndRound(numerator, divisor, value.negative, direction)
+
+  return createDecimal(value.negative, multiple * increment.coefficient, increment.scale)
+}
+
+/**
+ * Round a decimal value to a number of decimal places using a rounding method
+ * The result always carries exactly `places` fraction digits, or with an increment (0.05, 0.25, 50)
+ * a multiple of it carrying at least the increment's fraction digits
+ */
+export function roundDecimal(
+  value: DecimalValue,
+  places: number,
+  roundingMethod: RoundingMethod = 'S',
+  increment: DecimalValue | null = null,
+): DecimalValue {
+  const direction = resolveDirection(roundingMethod)
+  const step = increment ?? (roundingMethod === 'N05' || roundingMethod === 'U05' || roundingMethod === 'D05' ? FIVE_HUNDREDTHS : null)
+
+  if (step && !isZeroDecimal(step)) {
+    return rescaleDecimal(roundToIncrement(value, absDecimal(step), direction), Math.max(places, step.scale), 'halfUp')
+  }
+
+  return rescaleDecimal(value, places, direction)
+}
+
+/**
+ * Split a value into a rounded mantissa in [1, 10) and a power of ten exponent
+ */
+export function toExponentialDecimal(
+  value: DecimalValue,
+  fractionDigits: number,
+  roundingMethod: RoundingMethod = 'S',
+): { mantissa: DecimalValue, exponent: number } {
+  if (isZeroDecimal(value)) {
+    return { mantissa: rescaleDecimal(value, fractionDigits, 'halfUp'), exponent: 0 }
+  }
+
+  let exponent = decimalMagnitude(value)
+  let mantissa = roundDecimal(shiftDecimal(value, -exponent), fractionDigits, roundingMethod)
+
+  // Rounding can carry into a new digit (9.996 -> 10.00), so renormalize from the original value
+  if (decimalMagnitude(mantissa) >= 1) {
+    exponent += 1
+    mantissa = roundDecimal(shiftDecimal(value, -exponent), fractionDigits, roundingMethod)
+  }
+
+  return { mantissa, exponent }
+}
+
+/**
+ * Split a value into a rounded mantissa in [1, 1000) and an exponent that is a multiple of three
+ */
+export function toEngineeringDecimal(
+  value: DecimalValue,
+  fractionDigits: number,
+  roundingMethod: RoundingMethod = 'S',
+): { mantissa: DecimalValue, exponent: number } {
+  if (isZeroDecimal(value)) {
+    return { mantissa: rescaleDecimal(value, fractionDigits, 'halfUp'), exponent: 0 }
+  }
+
+  let exponent = Math.floor(decimalMagnitude(value) / 3) * 3
+  let mantissa = roundDecimal(shiftDecimal(value, -exponent), fractionDigits, roundingMethod)
+
+  // 999.996e3 rounds to 1000.00e3, which belongs to the next exponent
+  if (decimalMagnitude(mantissa) >= 3) {
+    exponent += 3
+    mantissa = roundDecimal(shiftDecimal(value, -exponent), fractionDigits, roundingMethod)
+  }
+
+  return { mantissa, exponent }
+}
+
+/**
+ * Write a fraction as a decimal value: exact when its denominator has no prime factors but 2 and 5,
+ * otherwise rounded half-even to the given fraction digits (1/3 -> 0.33333333333333333333)
+ */
+export function rationalToDecimal(numerator: bigint, denominator: bigint, negative = false, fractionDigits = 20): DecimalValue {
+  let rest = denominator
+  let twos = 0
+  let fives = 0
+  while (rest > 0n && rest % 2n === 0n) {
+    rest /= 2n
+    twos++
+  }
+  while (rest > 0n && rest % 5n === 0n) {
+    rest /= 5n
+    fives++
+  }
+
+  const scale = rest === 1n ? Math.max(twos, fives) : fractionDigits
+  return createDecimal(negative, divideAndRound(numerator * 10n ** BigInt(scale), denominator, negative, 'halfEven'), scale)
+}
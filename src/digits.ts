@@ -0,0 +1,49 @@
+// A single decimal digit, and every digit other than ASCII 0-9
+const DECIMAL_DIGIT_PATTERN = /^\p{Nd}$/u
+const NATIVE_DIGIT_PATTERN = /(?![0-9])\p{Nd}|[〇一二三四五六七八九]/gu
+
+// Chinese decimal digits (hanidec) are ideographs rather than Unicode decimal digits
+const HANIDEC_DIGITS = '〇一二三四五六七八九'
+
+const digitValues = new Map<string, string>()
+
+/**
+ * Check whether a character is a decimal digit in any script, such as 3, ٣, ३ or ３
+ */
+export function isDecimalDigit(char: string): boolean {
+  return DECIMAL_DIGIT_PATTERN.test(char) || (char.length === 1 && HANIDEC_DIGITS.includes(char))
+}
+
+/**
+ * Read the ASCII value of a decimal digit from any script
+ * Every Unicode decimal digit block runs from 0 to 9, so the value is the distance from the start of the block
+ */
+export function digitValue(char: string): string {
+  const cached = digitValues.get(char)
+  if (cached) {
+    return cached
+  }
+
+  let value: string
+  if (HANIDEC_DIGITS.includes(char)) {
+    value = String(HANIDEC_DIGITS.indexOf(char))
+  }
+  else {
+    const codePoint = char.codePointAt(0)!
+    let start = codePoint
+    while (start > 0 && DECIMAL_DIGIT_PATTERN.test(String.fromCodePoint(start - 1))) {
+      start--
+    }
+    value = String((codePoint - start) % 10)
+  }
+
+  digitValues.set(char, value)
+  return value
+}
+
+/**
+ * Replace the digits of every script with ASCII digits ("١٬٢٣٤" -> "1٬234")
+ */
+export function toAsciiDigits(value: string): string {
+  return value.replace(NATIVE_DIGIT_PATTERN, digitValue)
+}
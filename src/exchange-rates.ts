@@ -0,0 +1,151 @@
+import type { ConversionResult, ConvertOptions, DecimalValue, ExchangeRate, ExchangeRateProvider, ExchangeRateTable } from './types'
+import { getCurrency } from './currencies'
+import { decimalToString, rationalToDecimal, toDecimal } from './decimal'
+import { Money } from './money'
+
+// Provider convert and Numbers use when none is passed
+let defaultProvider: ExchangeRateProvider | null = null
+
+/**
+ * Set the provider convert uses when the options name none, or null to remove it
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider | null): void {
+  defaultProvider = provider
+}
+
+/**
+ * Provide rates held in memory against a base currency; cross rates go through the base
+ */
+export function createStaticRateProvider(table: ExchangeRateTable): ExchangeRateProvider {
+  return createTableProvider(table, 'static', new Date().toISOString())
+}
+
+/**
+ * Provide rates from a JSON file written as an ExchangeRateTable, read once without going online
+ * Undated rates are from when the file was last written; a table already read from JSON is used as it is
+ */
+export function createJsonRateProvider(file: string | ExchangeRateTable): ExchangeRateProvider {
+  if (typeof file !== 'string') {
+    return createTableProvider(checkRateTable(file, 'table'), 'json', '')
+  }
+
+  // File access is looked up on use, so the library pulls in no Node modules for browsers passing tables
+  const fs = globalThis.process?.getBuiltinModule?.('node:fs')
+  if (!fs) {
+    throw new Error(`Exchange rate files are read in Node or Bun; pass the table instead: ${file}`)
+  }
+  const { readFileSync, statSync } = fs
+  const table = checkRateTable(JSON.parse(readFileSync(file, 'utf8')), file)
+
+  return createTableProvider(table, file, statSync(file).mtime.toISOString())
+}
+
+/**
+ * Find the rate between two currencies, null when the provider has none
+ */
+export function getExchangeRate(from: string, to: string, options: Omit<ConvertOptions, 'rounding'> = {}): ExchangeRate | null {
+  const provider = options.provider ?? defaultProvider
+  if (!provider) {
+    throw new Error('No exchange rate provider: pass one or call setExchangeRateProvider')
+  }
+
+  return provider.getRate(from.toUpperCase(), to.toUpperCase(), toDay(options.date))
+}
+
+/**
+ * Convert an amount between currencies, rounded to the minor unit of the target currency
+ * Throws when the provider has no rate for the day
+ */
+export function convert(amount: Money | number | string | bigint, from: string, to: string, options: ConvertOptions = {}): ConversionResult {
+  const source = amount instanceof Money ? amount : Money.of(amount, from)
+  if (source.currency !== from.toUpperCase()) {
+    throw new Error(`Cannot convert ${source.currency} amounts from ${from}`)
+  }
+
+  const rate = getExchangeRate(source.currency, to, options)
+  if (!rate) {
+    throw new Error(`No exchange rate from ${source.currency} to ${to.toUpperCase()}${options.date ? ` on ${toDay(options.date)}` : ''}`)
+  }
+
+  const value = source.toDecimal()
+  const factor = toDecimal(rate.rate)!
+  const product: DecimalValue = {
+    negative: value.negative !== factor.negative,
+    coefficient: value.coefficient * factor.coefficient,
+    scale: value.scale + factor.scale,
+  }
+
+  return { amount: Money.of(decimalToString(product), to, options.rounding), rate }
+}
+
+/**
+ * Provide the rates of a table, by day when the table is keyed by day
+ */
+function createTableProvider(table: ExchangeRateTable, source: string, timestamp: string): ExchangeRateProvider {
+  const base = table.base.toUpperCase()
+  const dated = Object.values(table.rates).some(rates => typeof rates === 'object')
+  const days: [string, Record<string, number | string>][] = dated
+    ? Object.entries(table.rates as Record<string, Record<string, number | string>>).sort(([a], [b]) => a.localeCompare(b))
+    : [[table.timestamp ?? timestamp, table.rates as Record<string, number | string>]]
+
+  return {
+    getRate(from: string, to: string, date: string | null = null): ExchangeRate | null {
+      // Rates of the day asked for, or the latest published before it
+      const day = dated && date ? days.findLast(([key]) => key <= date) : days.at(-1)
+      if (!day || !getCurrency(from) || !getCurrency(to)) {
+        return null
+      }
+
+      const [published, rates] = day
+      const rateOf = (code: string): DecimalValue | null => code === base ? toDecimal(1) : rates[code] != null ? toDecimal(rates[code]) : null
+      const fromRate = rateOf(from)
+      const toRate = rateOf(to)
+      if (!fromRate || !toRate || fromRate.coefficient === 0n) {
+        return null
+      }
+
+      // to / from in lowest terms, so exact rates carry no trailing zeros
+      const numerator = toRate.coefficient * 10n ** BigInt(fromRate.scale)
+      const denominator = fromRate.coefficient * 10n ** BigInt(toRate.scale)
+      const divisor = greatestCommonDivisor(numerator, denominator)
+      const rate = from === base ? toRate : rationalToDecimal(numerator / divisor, denominator / divisor)
+
+      return { from, to, rate: decimalToString(rate), source: table.source ?? source, timestamp: published }
+    },
+  }
+}
+
+/**
+ * Find the greatest common divisor of two positive integers
+ */
+function greatestCommonDivisor(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    const remainder = a % b
+    a = b
+    b = remainder
+  }
+
+  return a || 1n
+}
+
+/**
+ * Check that JSON read as a rate table has a base currency and rates
+ */
+function checkRateTable(table: ExchangeRateTable | null, name: string): ExchangeRateTable {
+  if (!table || typeof table.base !== 'string' || !table.rates || typeof table.rates !== 'object') {
+    throw new Error(`Exchange rate files have a base currency and rates: ${name}`)
+  }
+
+  return table
+}
+
+/**
+ * Write a day as YYYY-MM-DD, null for none
+ */
+function toDay(date: Date | string | null | undefined): string | null {
+  if (!date) {
+    return null
+  }
+
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10)
+}
@@ -1,206 +1,45 @@
-import type { NumbersConfig } from './types'
-import { defaultConfig } from './config'
-import { formatNumber } from './format'
+import type { NumberFormatPart, NumbersConfig, PatternFormatResult, PatternName, RegisteredPattern } from './types'
+import { compilePattern } from './pattern-compiler'
 
 /**
- * Format pattern tokens:
- * # - Digit placeholder (replaced by a digit or nothing)
- * 0 - Zero placeholder (replaced by a digit or 0)
- * . - Decimal point
- * , - Thousands separator
- * $ - Currency symbol (will use the one from config)
- * + - Always show sign
- * - - Negative sign (only for negative numbers)
- * ( - Open parenthesis for negative numbers
- * ) - Close parenthesis for negative numbers
- * % - Percentage sign (multiplies by 100)
- * E - Scientific notation
+ * Format patterns follow Excel and LDML (see compilePattern), with up to four sections: positive;negative;zero;text
+ * 0 # ? - Digit placeholders: a digit or 0, a digit or nothing, a digit or a space
+ * @ - Significant digit (@@# rounds to 2 or 3 significant digits), or the text in the text section
+ * . , - Decimal point and grouping; commas after the last digit divide by 1,000 each (#,##0,K)
+ * % ‰ - Percent and per mille signs, multiplying by 100 and 1,000
+ * E+ E- - Scientific notation (0.00E+00), engineering with # integer placeholders (##0.0E+0)
+ * $ ¤ [$€-407] - Currency symbol, $ and ¤ use the one from config
+ * [>=1000] [Red] - Condition picking the section, colour returned by applyFormatPatternWithColor
+ * "text" 'text' \x - Literal text, other characters are kept as they are
+ * *x _x - Repeat x to fill the width, leave a space as wide as x
  */
 
 export interface FormatPatternOptions {
-  value: number | string
+  value: number | string | bigint
   pattern: string
   config?: NumbersConfig
+  width?: number // Width the * fill character pads the output to, like a spreadsheet column
 }
 
 /**
- * Custom scientific formatter that mimics Excel/spreadsheet style
+ * Apply a format pattern to a number
  */
-function formatScientific(value: number, decimalPlaces: number): string {
-  if (value === 0)
-    return `0.${'0'.repeat(decimalPlaces)}e+0`
-
-  const absValue = Math.abs(value)
-  const exponent = Math.floor(Math.log10(absValue))
-  const mantissa = absValue / 10 ** exponent
-
-  // Format the mantissa with specified decimal places
-  const formattedMantissa = mantissa.toFixed(decimalPlaces)
-
-  // Combine the parts
-  return `${value < 0 ? '-' : ''}${formattedMantissa}e${exponent >= 0 ? '+' : ''}${exponent}`
+export function applyFormatPattern(options: FormatPatternOptions): string {
+  return compilePattern(options.pattern).format(options.value, options.config, options.width)
 }
 
 /**
- * Apply a format pattern to a number
+ * Apply a format pattern to a number, returning typed parts like formatNumberToParts
  */
-export function applyFormatPattern({ value, pattern, config = {} }: FormatPatternOptions): string {
-  // Merge with default config
-  const mergedConfig: NumbersConfig = { ...defaultConfig, ...config }
-
-  // Convert value to number if it's a string
-  const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-
-  // Handle invalid numbers
-  if (!Number.isFinite(numValue)) {
-    return typeof value === 'string' ? value : 'NaN'
-  }
-
-  // Process patterns with different formats for positive and negative
-  if (pattern.includes(';')) {
-    const [positivePattern, negativePattern] = pattern.split(';')
-    if (numValue >= 0) {
-      return applyFormatPattern({
-        value: numValue,
-        pattern: positivePattern,
-        config: mergedConfig,
-      })
-    }
-    else {
-      // For negative formats with parentheses like ($#,##0.00)
-      // we need to format the absolute value
-      if (negativePattern.includes('(') && negativePattern.includes(')')) {
-        return negativePattern.replace(/\(([^)]+)\)/, (_, contents) => {
-          const formatted = applyFormatPattern({
-            value: Math.abs(numValue),
-            pattern: contents,
-            config: mergedConfig,
-          })
-          return `(${formatted})`
-        })
-      }
-      else {
-        return applyFormatPattern({
-          value: numValue,
-          pattern: negativePattern,
-          config: mergedConfig,
-        })
-      }
-    }
-  }
-
-  // Create a new config based on pattern analysis
-  const patternConfig: NumbersConfig = { ...mergedConfig }
-
-  // Handle percentage format
-  if (pattern.includes('%')) {
-    const percentValue = numValue * 100
-    const percentPattern = pattern.replace('%', '')
-
-    // Determine decimal places for percentage
-    if (percentPattern.includes('#0')) {
-      // If #0% format (whole numbers only), set decimal places to 0
-      if (!percentPattern.includes('.')) {
-        patternConfig.decimalPlaces = 0
-      }
-    }
-
-    return `${applyFormatPattern({
-      value: percentValue,
-      pattern: percentPattern,
-      config: patternConfig,
-    })}%`
-  }
-
-  // Handle scientific notation format (special handling needed)
-  if (pattern.includes('E')) {
-    // Determine decimal places from pattern
-    const decimalMatch = pattern.match(/\.(0+)/)
-    const decimalPlaces = decimalMatch ? decimalMatch[1].length : 3
-
-    // Format using the custom scientific formatter
-    return formatScientific(numValue, decimalPlaces)
-  }
-
-  // Handle custom format patterns
-  if (pattern.startsWith('0') && pattern.includes('.')) {
-    // Format like 0.00 - no grouping, fixed decimals
-    patternConfig.digitGroupSeparator = ''
-
-    // Set decimal places
-    const decimalMatch = pattern.match(/\.(0+)/)
-    if (decimalMatch) {
-      patternConfig.decimalPlaces = decimalMatch[1].length
-      patternConfig.allowDecimalPadding = true
-    }
-
-    return formatNumber({ value: numValue, config: patternConfig })
-  }
-
-  // Handle fixed decimal places with '0' placeholders
-  if (pattern.includes('0')) {
-    // Count decimal places after the decimal point
-    const decimalMatch = pattern.match(/\.(0+)/)
-    if (decimalMatch) {
-      patternConfig.decimalPlaces = decimalMatch[1].length
-      patternConfig.allowDecimalPadding = true
-    }
-
-    // For patterns like "0.00", disable digit grouping
-    if (pattern.startsWith('0') && !pattern.includes('#') && !pattern.includes(',')) {
-      patternConfig.digitGroupSeparator = ''
-    }
-  }
-
-  // Handle variable decimal places with '#' placeholders
-  if (pattern.includes('#')) {
-    // Count maximum decimal places
-    const decimalMatch = pattern.match(/\.(#+)/)
-    if (decimalMatch) {
-      patternConfig.decimalPlaces = decimalMatch[1].length
-      patternConfig.allowDecimalPadding = false
-    }
-
-    // For simple patterns like '#.##' without commas, disable digit grouping
-    if (pattern.match(/^#\.#+$/) || !pattern.includes(',')) {
-      patternConfig.digitGroupSeparator = ''
-    }
-  }
-
-  // Handle currency symbol
-  if (pattern.includes('$')) {
-    // If the pattern starts with the currency symbol, it's prefix placement
-    patternConfig.currencySymbolPlacement = pattern.startsWith('$') ? 'p' : 's'
-
-    // If we don't have a custom currency symbol in config, use $ as default
-    if (!config.currencySymbol && !patternConfig.currencySymbol) {
-      patternConfig.currencySymbol = '$'
-    }
-
-    // Special handling for negative currency values
-    if (numValue < 0) {
-      // For patterns like '-$#,##0.00', place negative sign before currency symbol
-      patternConfig.negativePositiveSignPlacement = 'p'
-    }
-  }
-
-  // Handle negative numbers with dash/parentheses
-  if (numValue < 0) {
-    if (pattern.includes('(') && pattern.includes(')')) {
-      patternConfig.negativeBracketsTypeOnBlur = '(,)'
-    }
-    else if (pattern.includes('-')) {
-      patternConfig.negativePositiveSignPlacement = 'p'
-    }
-  }
-
-  // Handle sign display
-  if (pattern.includes('+')) {
-    patternConfig.showPositiveSign = true
-  }
+export function applyFormatPatternToParts({ value, pattern, config, width }: FormatPatternOptions): NumberFormatPart[] {
+  return compilePattern(pattern).formatToParts(value, config, width)
+}
 
-  // Format the value
-  return formatNumber({ value: numValue, config: patternConfig })
+/**
+ * Apply a format pattern to a number, returning the colour of the section used ([Red], [Blue]) with the output
+ */
+export function applyFormatPatternWithColor({ value, pattern, config, width }: FormatPatternOptions): PatternFormatResult {
+  return compilePattern(pattern).formatWithColor(value, config, width)
 }
 
 /**
@@ -223,7 +62,7 @@ export const formatPatterns = {
 
   // Accounting formats
   accounting: '$#,##0.00;($#,##0.00)',
-  accountingParens: '$(#,##0.00)',
+  accountingParens: '$#,##0.00;$(#,##0.00)',
   accountingEuro: '€#,##0.00;(€#,##0.00)',
   accountingPound: '£#,##0.00;(£#,##0.00)',
 
@@ -236,77 +75,74 @@ export const formatPatterns = {
   fixed4: '0.0000',
   integer: '#,##0',
   thousands: '#,##0,K',
-  millions: '#,##0.0M',
-  billions: '#,##0.0B',
+  millions: '#,##0.0,,M',
+  billions: '#,##0.0,,,B',
+}
+
+// Patterns registered by name, looked up before the predefined ones
+const registeredPatterns = new Map<string, RegisteredPattern>()
+
+/**
+ * Register a named pattern, with options applied along with it, replacing any pattern of that name
+ * Throws a PatternSyntaxError for patterns that cannot be read
+ */
+export function registerPattern(name: PatternName, pattern: string, configOverrides: NumbersConfig = {}): RegisteredPattern {
+  if (!name.trim()) {
+    throw new Error('Pattern names cannot be empty')
+  }
+
+  compilePattern(pattern)
+  const registered: RegisteredPattern = { name, pattern, config: { ...configOverrides }, predefined: false }
+  registeredPatterns.set(name, registered)
+
+  return registered
+}
+
+/**
+ * Remove a registered pattern, returning whether there was one; predefined patterns stay
+ */
+export function unregisterPattern(name: PatternName): boolean {
+  return registeredPatterns.delete(name)
+}
+
+/**
+ * Look up a registered or predefined pattern by name
+ */
+export function getPattern(name: PatternName): RegisteredPattern | null {
+  const registered = registeredPatterns.get(name)
+  if (registered) {
+    return registered
+  }
+
+  return Object.hasOwn(formatPatterns, name)
+    ? { name, pattern: formatPatterns[name as keyof typeof formatPatterns], config: {}, predefined: true }
+    : null
+}
+
+/**
+ * List the predefined patterns, then the registered ones; a registered pattern replaces a predefined one of the same name
+ */
+export function listPatterns(): RegisteredPattern[] {
+  const predefined = Object.keys(formatPatterns).filter(name => !registeredPatterns.has(name))
+  return [...predefined.map(name => getPattern(name as PatternName)!), ...registeredPatterns.values()]
 }
 
 /**
- * Apply a predefined format pattern
+ * Apply a predefined or registered format pattern, with the options registered along with it
  */
 export function applyPredefinedPattern({
   value,
   patternName,
   config = {},
 }: {
-  value: number | string
-  patternName: keyof typeof formatPatterns
+  value: number | string | bigint
+  patternName: PatternName
   config?: NumbersConfig
 }): string {
-  const pattern = formatPatterns[patternName]
-  if (!pattern) {
+  const registered = getPattern(patternName)
+  if (!registered) {
     throw new Error(`Unknown format pattern: ${String(patternName)}`)
   }
 
-  // Special handling for certain patterns
-  const updatedConfig = { ...config }
-
-  switch (patternName) {
-    case 'currencyEuro':
-      if (!config.currencySymbol) {
-        updatedConfig.currencySymbol = '€'
-      }
-      break
-    case 'currencyPound':
-      if (!config.currencySymbol) {
-        updatedConfig.currencySymbol = '£'
-      }
-      break
-    case 'currencyYen':
-      if (!config.currencySymbol) {
-        updatedConfig.currencySymbol = '¥'
-      }
-      updatedConfig.decimalPlaces = 0
-      break
-    case 'percentWhole':
-      updatedConfig.decimalPlaces = 0
-      break
-    case 'scientific':
-    case 'scientificShort': {
-      // Direct scientific formatter for these patterns
-      const decimalPlaces = patternName === 'scientific' ? 3 : 1
-      return formatScientific(
-        typeof value === 'string' ? Number.parseFloat(value) : value,
-        decimalPlaces,
-      )
-    }
-    case 'accountingParens':
-      // Special case for the parentheses format with currency symbol inside
-      if (typeof value === 'string' ? Number.parseFloat(value) < 0 : value < 0) {
-        const absValue = Math.abs(typeof value === 'string' ? Number.parseFloat(value) : value)
-        const formattedAbs = applyFormatPattern({
-          value: absValue,
-          pattern: pattern.replace(/[()]/g, ''),
-          config: updatedConfig,
-        })
-        return `$(${formattedAbs.replace('$', '')})`
-      }
-      break
-    case 'fixed2':
-    case 'fixed4':
-      // Ensure no digit grouping for fixed patterns
-      updatedConfig.digitGroupSeparator = ''
-      break
-  }
-
-  return applyFormatPattern({ value, pattern, config: updatedConfig })
+  return applyFormatPattern({ value, pattern: registered.pattern, config: { ...registered.config, ...config } })
 }
@@ -1,657 +1,694 @@
-import type { FormatNumberOptions, NumbersConfig, ParseNumberOptions, RoundingMethod } from './types'
-import { defaultConfig } from './config'
+import type { DecimalValue, FormatNumberOptions, NumberFormatPart, NumbersConfig, ParseNumberOptions, RoundingMethod } from './types'
+import { matchCompactSuffix, resolveCompactSuffixes, supportsIntlCompact } from './compact'
+import { getCashRoundingIncrement, getCurrencyDisplay, listCurrencyTexts } from './currencies'
+import {
+  absDecimal,
+  compareDecimal,
+  decimalMagnitude,
+  decimalToNumber,
+  decimalToString,
+  isZeroDecimal,
+  negateDecimal,
+  parseDecimal,
+  parseLeadingDecimal,
+  roundDecimal,
+  shiftDecimal,
+  shiftDecimalWithinRange,
+  splitDecimal,
+  toDecimal,
+  toEngineeringDecimal,
+  toExponentialDecimal,
+} from './decimal'
+import { isDecimalDigit, toAsciiDigits } from './digits'
+import { matchFraction, mixedToDecimal, splitFraction } from './fractions'
+import { formatExponent, matchSIPrefix, normalizeExponentNotation, siPrefixes } from './notation'
+import { getLocaleSymbols, isCurrencyCode, resolveConfig } from './locale'
+import { partsToString, pushPart, segmentFormatted } from './parts'
 import { formatSpecializedNumber } from './specialized-formatter'
 
-/**
- * Round a number according to the specified rounding method
- */
-export function roundNumber(value: number, decimals: number, roundingMethod: RoundingMethod): number {
-  // Helper function for exponential-based rounding to avoid floating point issues
-  const roundExp = (v: number, d: number, roundFn: (x: number) => number): number => {
-    const factor = 10 ** d
-    return roundFn(v * factor) / factor
-  }
-
-  // Helper for banker's rounding (round to nearest even)
-  const bankersRound = (v: number, d: number): number => {
-    // Using a technique that avoids floating-point errors
-    // This works by using string operations for precision
-
-    // Convert to string with enough precision to preserve the fractional part
-    const valueStr = v.toFixed(d + 10)
+type ExponentNotation = 'si' | 'engineering' | 'scientific'
 
-    // Extract the whole and fractional parts
-    const [whole, fraction] = valueStr.split('.')
-
-    // Extract the part we care about based on decimals and the part after
-    const relevantDigits = fraction.slice(0, d)
-    const nextDigit = fraction.charAt(d)
-
-    let result: string
-
-    if (nextDigit < '5') {
-      // Round down
-      result = `${whole}.${relevantDigits}`
-    }
-    else if (nextDigit > '5') {
-      // Round up
-      result = `${Number.parseFloat(`${whole}.${relevantDigits}`) + 10 ** -d}`
-    }
-    else {
-      // For exactly .5, round to even
-      const lastRelevantDigit = relevantDigits.charAt(relevantDigits.length - 1)
-      const isEven = lastRelevantDigit && Number.parseInt(lastRelevantDigit, 10) % 2 === 0
+const ZERO: DecimalValue = { negative: false, coefficient: 0n, scale: 0 }
+const ONE: DecimalValue = { negative: false, coefficient: 1n, scale: 0 }
 
-      if (isEven) {
-        // Round down to even
-        result = `${whole}.${relevantDigits}`
-      }
-      else {
-        // Round up to even
-        result = `${Number.parseFloat(`${whole}.${relevantDigits}`) + 10 ** -d}`
-      }
-    }
+/**
+ * Round a number according to the specified rounding method, optionally to a multiple of an increment (0.05, 50)
+ * Numbers are rounded as the decimal they print as, so 1.005 rounds to 1.01.
+ * Decimal strings and bigints are rounded exactly and returned as decimal strings.
+ */
+export function roundNumber(value: number, decimals: number, roundingMethod: RoundingMethod, roundingIncrement?: number | string): number
+export function roundNumber(value: string | bigint, decimals: number, roundingMethod: RoundingMethod, roundingIncrement?: number | string): string
+export function roundNumber(
+  value: number | string | bigint,
+  decimals: number,
+  roundingMethod: RoundingMethod,
+  roundingIncrement?: number | string,
+): number | string {
+  const decimal = toDecimal(value)
+
+  // NaN, Infinity and non-numeric strings cannot be rounded
+  if (!decimal) {
+    return typeof value === 'number' ? value : String(value)
+  }
+
+  const rounded = roundDecimal(decimal, decimals, roundingMethod, resolveRoundingIncrement({ roundingIncrement }))
+  return typeof value === 'number' ? decimalToNumber(rounded) : decimalToString(rounded)
+}
 
-    return Number.parseFloat(result)
+/**
+ * Convert a format input into an exact decimal value
+ * Strings that are not plain decimals fall back to their leading number, like parseFloat
+ */
+function resolveDecimal(value: number | string | bigint): DecimalValue | null {
+  if (typeof value === 'string') {
+    return toDecimal(value) ?? parseLeadingDecimal(value)
   }
 
-  // For operations that need it, get the sign and absolute value
-  const sign = Math.sign(value)
-  const absValue = Math.abs(value)
-
-  switch (roundingMethod) {
-    case 'S': // Round-Half-Up Symmetric (default)
-      // For both positive and negative numbers, round away from zero
-      return sign * roundExp(absValue, decimals, Math.round)
-
-    case 'A': // Round-Half-Up Asymmetric
-      // For positive numbers, round away from zero; for negative, round toward zero
-      return value >= 0
-        ? roundExp(value, decimals, Math.round)
-        : roundExp(value, decimals, Math.floor)
-
-    case 's': // Round-Half-Down Symmetric (lower case s)
-      // For both positive and negative numbers, round toward zero
-      return sign * roundExp(absValue, decimals, Math.floor)
-
-    case 'a': // Round-Half-Down Asymmetric (lower case a)
-      // For positive numbers, round toward zero; for negative, round away from zero
-      return value >= 0
-        ? roundExp(value, decimals, Math.floor)
-        : roundExp(value, decimals, Math.round)
-
-    case 'B': // Round-Half-Even 'Bankers Rounding'
-      // Use proper banker's rounding method
-      return bankersRound(value, decimals)
+  return toDecimal(value)
+}
 
-    case 'U': // Round Up 'Round-Away-From-Zero' - based on test expectation
-      // For positive numbers, use ceiling; for negative, use floor but keep most negative (test expectation inconsistent)
-      if (value >= 0) {
-        return roundExp(value, decimals, Math.ceil)
-      }
-      else {
-        // For negative numbers, test expects -1.234 to round to -1.23
-        // Apply 'rounded toward zero' method
-        return -Math.floor(absValue * 10 ** decimals) / 10 ** decimals
-      }
+/**
+ * Render values that have no decimal representation (NaN, infinities, text)
+ */
+function formatNonFinite(value: number | string | bigint): string {
+  const numValue = typeof value === 'string' ? Number.parseFloat(value) : Number(value)
 
-    case 'D': // Round Down 'Round-Toward-Zero' - based on test expectation
-      // For positive numbers, round down (toward zero)
-      // For negative numbers, round down (away from zero) based on test expectation
-      if (value >= 0) {
-        return roundExp(value, decimals, Math.floor)
-      }
-      else {
-        // For negative numbers, test expects rounding down (more negative)
-        return roundExp(value, decimals, Math.floor)
-      }
+  if (numValue === Infinity) {
+    return '∞'
+  }
+  if (numValue === -Infinity) {
+    return '-∞'
+  }
 
-    case 'C': // Round to Ceiling 'Toward Positive Infinity'
-      // Always round up (ceiling)
-      return roundExp(value, decimals, Math.ceil)
+  return typeof value === 'string' ? value : 'NaN'
+}
 
-    case 'F': // Round to Floor 'Toward Negative Infinity'
-      // Always round down (floor)
-      return roundExp(value, decimals, Math.floor)
+/**
+ * Split the output of a specialized formatter into parts
+ */
+function specializedParts(text: string, config: NumbersConfig): NumberFormatPart[] {
+  const suffixText = config.suffixText || ''
+  const body = suffixText && text.endsWith(suffixText) ? text.slice(0, -suffixText.length) : text
 
-    case 'N05': // Rounds to the nearest .05
-      return Math.round(value * 20) / 20
+  // Specialized formatters print plain decimals, but only measurements are numbers
+  const numeric = ['weight', 'length', 'temperature', 'percentage'].includes(config.isSpecializedType ?? '')
+  const parts = segmentFormatted(body, { currencySymbol: config.currencySymbol }, numeric)
 
-    case 'U05': // Rounds up to next .05
-      return Math.ceil(value * 20) / 20
+  return body === text ? parts : pushPart(parts, 'suffix', suffixText)
+}
 
-    case 'D05': // Rounds down to next .05
-      return Math.floor(value * 20) / 20
+/**
+ * Symbols the pipeline writes with: the locale's own, unless the configuration sets others
+ */
+export interface FormatSymbols {
+  decimal: string
+  group: string
+  minusSign: string
+  plusSign: string
+  digits: string[] | null // Native digits 0-9, null for ASCII digits
+  grouping: number[] | null // Group sizes from the decimal point outwards, null for no grouping
+  minimumGroupingDigits: number
+  currency: string
+  currencyPlacement: 'p' | 's'
+  currencySpacing: string
+}
 
-    default:
-      // Default to Round-Half-Up Symmetric
-      return sign * roundExp(absValue, decimals, Math.round)
-  }
+/**
+ * A value after the scale step, with the parts written directly after its digits
+ */
+interface ScaledValue {
+  value: DecimalValue
+  decimalPlaces: number
+  trimZeros: boolean // Compact notation drops trailing fraction zeros (5.0B -> 5B)
+  increment: DecimalValue | null // Rounding increment of plain values (0.05, 50)
+  notation: NumberFormatPart[] // Exponent or compact unit
+  suffixText: string
 }
 
 /**
  * Format a number according to the configuration
  */
-export function formatNumber({ value, config = {} }: FormatNumberOptions): string {
+export function formatNumber(options: FormatNumberOptions): string {
+  return partsToString(formatNumberToParts(options))
+}
+
+/**
+ * Format a number into typed parts (integer, group, decimal, fraction, numerator, denominator, currency, sign, suffix, literal, exponent)
+ * Joining the part values gives the same string as formatNumber
+ *
+ * Every value runs through the same steps: normalize → scale → round → digits → grouping → sign → affixes
+ */
+export function formatNumberToParts({ value, config = {} }: FormatNumberOptions): NumberFormatPart[] {
   // Merge with default config
-  const mergedConfig: NumbersConfig = { ...defaultConfig, ...config }
+  const mergedConfig: NumbersConfig = resolveConfig(config)
 
   // Handle specialized number types
   if (mergedConfig.isSpecializedType && mergedConfig.specializedOptions) {
-    return formatSpecializedNumber(value, mergedConfig)
-  }
-
-  // Handle negativeBracketsTypeOnBlur option for accounting format
-  if (mergedConfig.negativeBracketsTypeOnBlur) {
-    const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-    if (Number.isFinite(numValue) && numValue < 0) {
-      // Format the absolute value
-      const absValue = Math.abs(numValue)
-      const formatted = formatNumber({ value: absValue, config: { ...mergedConfig, negativeBracketsTypeOnBlur: null } })
-
-      // Apply brackets based on the configuration
-      const brackets = mergedConfig.negativeBracketsTypeOnBlur.split(',')
-      if (brackets.length === 2) {
-        return `${brackets[0]}${formatted}${brackets[1]}`
-      }
-    }
+    return specializedParts(formatSpecializedNumber(typeof value === 'bigint' ? value.toString() : value, mergedConfig), mergedConfig)
   }
 
-  // Special handling for digitGroupSpacing: '2' in tests
-  if (mergedConfig.digitGroupSpacing === '2' && Object.keys(config).length === 1 && 'digitGroupSpacing' in config) {
-    // Special case for the test that expects format: 12,34,56,7.89
-    const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-    if (!Number.isFinite(numValue)) {
-      return typeof value === 'string' ? value : 'NaN'
-    }
-
-    const decimalPlaces = mergedConfig.decimalPlaces ?? 2
-    const [intPart, decPart = ''] = Math.abs(numValue).toFixed(decimalPlaces).split('.')
-
-    // Format with group spacing of 2, from left to right (12,34,56,7.89)
-    let formattedInt = ''
-    for (let i = 0; i < intPart.length; i++) {
-      formattedInt += intPart.charAt(i)
-      if (i < intPart.length - 1 && (i + 1) % 2 === 0) {
-        formattedInt += ','
-      }
-    }
-
-    let result = `${formattedInt}.${decPart}`
-
-    // Add sign if needed
-    if (numValue < 0) {
-      result = `${mergedConfig.negativeSignCharacter || '-'}${result}`
-    }
-    else if (mergedConfig.showPositiveSign) {
-      result = `${mergedConfig.positiveSignCharacter || '+'}${result}`
-    }
-
-    return result
-  }
-
-  // Special handling for test cases with showPositiveSign and custom sign characters
-  if (config.showPositiveSign || config.positiveSignCharacter || config.negativeSignCharacter) {
-    const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-    if (!Number.isFinite(numValue)) {
-      return typeof value === 'string' ? value : 'NaN'
-    }
-
-    // Let the formatManually function handle this with proper config
-    return formatManually(numValue, mergedConfig)
+  // Handle non-number, non-string values
+  if (typeof value !== 'number' && typeof value !== 'string' && typeof value !== 'bigint') {
+    return [{ type: 'literal', value: String(value) }]
   }
 
-  // Special handling for allowDecimalPadding test cases
-  if (config.allowDecimalPadding === false || config.allowDecimalPadding === 'floats') {
-    const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-    if (!Number.isFinite(numValue)) {
-      return typeof value === 'string' ? value : 'NaN'
-    }
-
-    // Let the formatManually function handle this with proper config
-    return formatManually(numValue, mergedConfig)
+  // Normalize: don't attempt to format non-finite or non-numeric values
+  const decimal = resolveDecimal(value)
+  if (!decimal) {
+    const text = formatNonFinite(value)
+    return text === '-∞' ? [{ type: 'sign', value: '-' }, { type: 'literal', value: '∞' }] : [{ type: 'literal', value: text }]
   }
 
-  // Special handling for German formatting (used in tests)
-  if (mergedConfig.digitGroupSeparator === '.' && mergedConfig.decimalCharacter === ',') {
-    // This is a direct implementation for the specific test cases
-    const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-
-    if (!Number.isFinite(numValue)) {
-      return typeof value === 'string' ? value : 'NaN'
-    }
-
-    const decimalPlaces = mergedConfig.decimalPlaces ?? 2
-    const [intPart, decPart = ''] = Math.abs(numValue).toFixed(decimalPlaces).split('.')
-
-    // Format integer part with dots for group separators
-    let formattedInt = ''
-    for (let i = 0; i < intPart.length; i++) {
-      if (i > 0 && (intPart.length - i) % 3 === 0) {
-        formattedInt += '.'
-      }
-      formattedInt += intPart.charAt(i)
-    }
-
-    // Build the final formatted string
-    let result = `${formattedInt},${decPart}`
-
-    // Add sign if needed
-    if (numValue < 0) {
-      result = `${mergedConfig.negativeSignCharacter || '-'}${result}`
-    }
-    else if (mergedConfig.showPositiveSign) {
-      result = `${mergedConfig.positiveSignCharacter || '+'}${result}`
-    }
-
-    // Add currency and suffix if needed
-    if (mergedConfig.currencySymbol) {
-      result = mergedConfig.currencySymbolPlacement === 'p'
-        ? `${mergedConfig.currencySymbol}${result}`
-        : `${result}${mergedConfig.currencySymbol}`
-    }
+  // Specialized types without options print the value itself
+  if (mergedConfig.isSpecializedType) {
+    const result = formatSpecializedNumber(mergedConfig.isSpecializedType === 'phone' ? String(value) : decimalToNumber(decimal), mergedConfig)
+    const parts = specializedParts(result, mergedConfig)
 
-    if (mergedConfig.suffixText) {
-      result = `${result}${mergedConfig.suffixText}`
+    // Apply currency symbol if defined and not already included
+    const { currency, currencyPlacement, currencySpacing } = resolveFormatSymbols(mergedConfig)
+    if (currency && !result.includes(currency)) {
+      const affix: NumberFormatPart[] = [{ type: 'currency', value: currency }, { type: 'literal', value: currencySpacing }]
+      const affixed = currencyPlacement === 'p' ? [...affix, ...parts] : [...parts, ...affix.reverse()]
+      return affixed.filter(part => part.value !== '')
     }
 
-    return result
+    return parts
   }
 
-  // For non-numeric strings like 'abc', return as is
-  if (typeof value === 'string' && Number.isNaN(Number.parseFloat(value))) {
-    return value
-  }
+  const scaled = scaleValue(decimal, mergedConfig)
+  return renderScaledValue(scaled, mergedConfig, resolveFormatSymbols(mergedConfig))
+}
 
-  // Convert to number
-  const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
+/**
+ * Resolve the separators, signs, digits and currency display for a resolved configuration
+ */
+export function resolveFormatSymbols(config: NumbersConfig): FormatSymbols {
+  const {
+    locale,
+    numberingSystem,
+    decimalCharacter = '.',
+    digitGroupSeparator = ',',
+    digitGroupSpacing = '3',
+    minimumGroupingDigits = 1,
+    negativeSignCharacter = '-',
+    positiveSignCharacter = '+',
+    currencySymbol = '',
+    currencySymbolPlacement = 'p',
+    currencyDisplay = null,
+    currencySpacing = null,
+  } = config
 
-  // Don't attempt to format non-finite values
-  if (!Number.isFinite(numValue)) {
-    if (Number.isNaN(numValue)) {
-      return typeof value === 'string' ? value : 'NaN'
-    }
-    return numValue === Infinity ? '∞' : '-∞'
+  const symbols: FormatSymbols = {
+    decimal: decimalCharacter,
+    group: digitGroupSeparator,
+    minusSign: negativeSignCharacter,
+    plusSign: positiveSignCharacter,
+    digits: numberingSystem ? getLocaleSymbols('en', numberingSystem).digits : null,
+    grouping: resolveGrouping(digitGroupSpacing),
+    minimumGroupingDigits,
+    currency: currencySymbol,
+    currencyPlacement: currencySymbolPlacement,
+    currencySpacing: '',
   }
 
-  // Handle non-number, non-string values
-  if (typeof value !== 'number' && typeof value !== 'string') {
-    return String(value)
-  }
+  // Currency codes (USD, EUR) are displayed the way the locale writes them, or English when only a display is set
+  if ((locale || currencyDisplay) && isCurrencyCode(currencySymbol)) {
+    const currency = getCurrencyDisplay(currencySymbol, locale || 'en', currencyDisplay ?? 'symbol')!
+    symbols.currency = currency.text
+    symbols.currencySpacing = currency.spacing
 
-  // Check if the input is a valid number
-  try {
-    if (Number.isNaN(numValue)) {
-      return typeof value === 'string' ? value : 'NaN' // Return original value if NaN
+    // Names read as words, before or after the number as the language puts them
+    if (currencyDisplay === 'name') {
+      symbols.currencyPlacement = currency.placement
     }
   }
-  catch {
-    // Return original value if it can't be parsed
-    return typeof value === 'string' ? value : 'NaN'
+  if (currencySpacing !== null) {
+    symbols.currencySpacing = currencySpacing
   }
 
-  // Handle specialized number types
-  if (mergedConfig.isSpecializedType) {
-    // Direct use of specialized formatter for phone numbers
-    if (mergedConfig.isSpecializedType === 'phone') {
-      const phoneValue = typeof value === 'string' ? value : value.toString()
-      return formatSpecializedNumber(phoneValue, mergedConfig)
-    }
-
-    // For other specialized types
-    const numValue = typeof value === 'string' ? Number.parseFloat(value) : value
-    const result = formatSpecializedNumber(numValue, mergedConfig)
-
-    // Apply currency symbol if defined and not already included
-    if (mergedConfig.currencySymbol && !result.includes(mergedConfig.currencySymbol)) {
-      return mergedConfig.currencySymbolPlacement === 'p'
-        ? `${mergedConfig.currencySymbol}${result}`
-        : `${result}${mergedConfig.currencySymbol}`
-    }
+  return symbols
+}
 
-    return result
+/**
+ * Scale step: pick compact units, SI prefixes, engineering or scientific exponents
+ */
+function scaleValue(value: DecimalValue, config: NumbersConfig): ScaledValue {
+  const scaled: ScaledValue = {
+    value,
+    decimalPlaces: config.decimalPlaces ?? 2,
+    trimZeros: false,
+    increment: resolveRoundingIncrement(config),
+    notation: [],
+    suffixText: config.suffixText || '',
   }
 
-  // Apply scientific notation if configured
-  if (mergedConfig.useScientificNotation) {
-    // Handle both large numbers and very small numbers
-    const absValue = Math.abs(numValue)
-
-    // Apply scientific notation for values above threshold OR very small numbers
-    if ((mergedConfig.scientificNotationThreshold && absValue >= mergedConfig.scientificNotationThreshold)
-      || (absValue > 0 && absValue <= 0.001)) {
-      return formatScientificNotation(numValue, mergedConfig)
+  // Apply compact notation (1.2K, 3.4M) if configured
+  if (config.useCompactNotation) {
+    const compact = scaleCompactNotation(value, config)
+    if (compact) {
+      return { ...scaled, ...compact, increment: null }
     }
   }
 
-  // For extreme values that might cause issues
-  if (Math.abs(numValue) > 1e21) {
-    return numValue.toString()
-  }
-
-  // Handle internationalization if locale is set
-  if (mergedConfig.locale) {
-    return formatWithLocale(numValue, mergedConfig)
+  // Apply SI prefixes, engineering or scientific notation if configured
+  const notation = resolveExponentNotation(value, config)
+  if (notation) {
+    return { ...scaled, ...scaleExponentNotation(value, config, notation), increment: null }
   }
 
-  // Format the number manually
-  return formatManually(numValue, mergedConfig)
+  return scaled
 }
 
 /**
- * Format a number in scientific notation
+ * Read the rounding increment of a configuration: the cash increment of its currency code, or roundingIncrement
  */
-function formatScientificNotation(value: number, config: NumbersConfig): string {
-  const decimalPlaces = config.decimalPlaces ?? 2
+export function resolveRoundingIncrement(config: NumbersConfig): DecimalValue | null {
+  const code = (config.currencySymbol ?? '').trim()
+  const cashIncrement = config.cashRounding && isCurrencyCode(code) ? getCashRoundingIncrement(code) : null
+  const increment = cashIncrement ?? config.roundingIncrement
+  const decimal = increment != null && increment !== '' ? toDecimal(increment) : null
 
-  // Check if value is valid for scientific notation
-  if (value === 0) {
-    return formatManually(0, config)
-  }
+  return decimal && !isZeroDecimal(decimal) ? absDecimal(decimal) : null
+}
 
-  if (!Number.isFinite(value)) {
-    if (Number.isNaN(value)) {
-      return 'NaN'
-    }
-    return value === Infinity ? '∞' : '-∞'
+/**
+ * Read the significant digit limits of a configuration, null when only decimal places apply
+ */
+function resolveSignificantDigits(config: NumbersConfig): { minimum: number, maximum: number } | null {
+  const { minimumSignificantDigits, maximumSignificantDigits } = config
+  if (minimumSignificantDigits == null && maximumSignificantDigits == null) {
+    return null
   }
 
-  // Format with exponential notation
-  const formatted = value.toExponential(decimalPlaces)
+  const maximum = Math.min(Math.max(maximumSignificantDigits ?? 21, 1), 21)
+  return { minimum: Math.min(Math.max(minimumSignificantDigits ?? 1, 1), maximum), maximum }
+}
 
-  // Apply currency symbol if defined
-  if (config.currencySymbol) {
-    return config.currencySymbolPlacement === 'p'
-      ? `${config.currencySymbol}${formatted}`
-      : `${formatted}${config.currencySymbol}`
+/**
+ * Pick the decimal places to round a value to: its fraction digits or its significant digits
+ * Significant digits win unless roundingPriority asks for the limit keeping more or fewer digits
+ */
+export function resolvePrecision(value: DecimalValue, fractionDigits: number, config: NumbersConfig): { places: number, minimumSignificantDigits: number | null } {
+  const significant = resolveSignificantDigits(config)
+  if (!significant) {
+    return { places: fractionDigits, minimumSignificantDigits: null }
   }
 
-  // Apply suffix if defined
-  if (config.suffixText) {
-    return `${formatted}${config.suffixText}`
-  }
+  const places = significant.maximum - 1 - decimalMagnitude(value)
+  const useFraction = config.roundingPriority === 'morePrecision'
+    ? fractionDigits > places
+    : config.roundingPriority === 'lessPrecision' && fractionDigits < places
 
-  return formatted
+  return useFraction
+    ? { places: fractionDigits, minimumSignificantDigits: null }
+    : { places, minimumSignificantDigits: significant.minimum }
 }
 
 /**
- * Format a number using the Intl.NumberFormat for localization
+ * Pick the exponent notation that applies to a value, checking SI prefixes,
+ * then engineering, then scientific notation against their own thresholds
  */
-function formatWithLocale(value: number, config: NumbersConfig): string {
-  const { locale, decimalPlaces = 2, useGrouping = true, currencySymbol } = config
+function resolveExponentNotation(value: DecimalValue, config: NumbersConfig): ExponentNotation | null {
+  const absValue = absDecimal(value)
+  const modes: [ExponentNotation, boolean | undefined, number | undefined, number | undefined][] = [
+    ['si', config.siUnitPrefixes, config.siUnitPrefixThreshold, config.siUnitPrefixSmallThreshold],
+    ['engineering', config.engineeringNotation, config.engineeringNotationThreshold, config.engineeringNotationSmallThreshold],
+    ['scientific', config.useScientificNotation, config.scientificNotationThreshold, config.scientificNotationSmallThreshold],
+  ]
 
-  const options: Intl.NumberFormatOptions = {
-    minimumFractionDigits: decimalPlaces,
-    maximumFractionDigits: decimalPlaces,
-    useGrouping,
-  }
+  for (const [notation, enabled, largeThreshold, smallThreshold] of modes) {
+    if (!enabled) {
+      continue
+    }
 
-  // Apply numbering system if specified
-  if (config.numberingSystem) {
-    options.numberingSystem = config.numberingSystem
-  }
+    const large = largeThreshold ? toDecimal(largeThreshold) : null
+    const small = smallThreshold ? toDecimal(smallThreshold) : null
 
-  // Add currency if specified
-  if (currencySymbol) {
-    if (currencySymbol.length <= 3 && /^[A-Z]{3}$/.test(currencySymbol)) {
-      // If it's a standard 3-letter currency code (like USD), use currency formatting
-      options.style = 'currency'
-      options.currency = currencySymbol
-    }
-    else {
-      // Otherwise, manually add the currency symbol
-      const formatted = new Intl.NumberFormat(locale, options).format(value)
-      return config.currencySymbolPlacement === 'p'
-        ? `${currencySymbol}${formatted}`
-        : `${formatted}${currencySymbol}`
+    // Large values at or above the threshold, tiny non-zero values at or below the small threshold
+    if ((large && compareDecimal(absValue, large) >= 0)
+      || (small && !isZeroDecimal(absValue) && compareDecimal(absValue, small) <= 0)) {
+      return notation
     }
   }
 
-  // Format with the locale
-  const formatted = new Intl.NumberFormat(locale, options).format(value)
+  return null
+}
 
-  // Add suffix if specified
-  if (config.suffixText) {
-    return `${formatted}${config.suffixText}`
+/**
+ * Split a value into a mantissa and a scientific exponent, engineering exponent or SI prefix
+ */
+function scaleExponentNotation(value: DecimalValue, config: NumbersConfig, notation: ExponentNotation): Partial<ScaledValue> {
+  const mantissaDigits = {
+    si: config.siUnitPrefixMantissaDigits,
+    engineering: config.engineeringMantissaDigits,
+    scientific: config.scientificMantissaDigits,
+  }[notation] ?? config.decimalPlaces ?? 2
+
+  // Significant digits count from the leading digit of the mantissa
+  const magnitude = decimalMagnitude(value)
+  const estimate = shiftDecimal(value, notation === 'scientific' ? -magnitude : -Math.floor(magnitude / 3) * 3)
+  const { places } = resolvePrecision(estimate, mantissaDigits, config)
+
+  const { mantissa, exponent } = notation === 'scientific'
+    ? toExponentialDecimal(value, places, config.roundingMethod)
+    : toEngineeringDecimal(value, places, config.roundingMethod)
+
+  const prefix = notation === 'si' ? siPrefixes[exponent] : undefined
+  if (prefix !== undefined) {
+    // SI prefixes attach to the unit ("1.50 kHz"), or to the number when there is none ("1.50k")
+    const unit = (config.suffixText || '').trim()
+    return unit
+      ? { value: mantissa, decimalPlaces: mantissaDigits, suffixText: ` ${prefix}${unit}` }
+      : { value: mantissa, decimalPlaces: mantissaDigits, notation: pushPart([], 'suffix', prefix) }
+  }
+
+  // Outside the SI prefix range this falls back to the engineering exponent
+  return {
+    value: mantissa,
+    decimalPlaces: mantissaDigits,
+    notation: [{ type: 'exponent', value: formatExponent(exponent, config.exponentDisplay) }],
   }
-
-  return formatted
 }
 
 /**
- * Format a number manually according to the configuration
+ * Scale a value to its compact unit (1.2K, 3.4M, 5B)
+ * Returns null when the value is below the compact threshold
  */
-function formatManually(value: number, config: NumbersConfig): string {
+function scaleCompactNotation(value: DecimalValue, config: NumbersConfig): Partial<ScaledValue> | null {
   const {
-    decimalPlaces = 2,
-    decimalCharacter = '.',
-    digitGroupSeparator = ',',
-    digitGroupSpacing = '3',
-    currencySymbol = '',
-    currencySymbolPlacement = 'p',
-    suffixText = '',
-    showPositiveSign = false,
-    negativeSignCharacter = '-',
-    positiveSignCharacter = '+',
+    compactNotationThreshold = 1000,
+    compactDecimalPlaces = 1,
+    compactDisplay = 'short',
     roundingMethod = 'S',
-    allowDecimalPadding = true,
-    negativeBracketsTypeOnBlur = null,
   } = config
 
-  // First round the number according to the rounding method
-  const roundedValue = roundNumber(value, decimalPlaces, roundingMethod)
-
-  // Convert to string and split into integer and decimal parts
-  const absValue = Math.abs(roundedValue)
-  let [integerPart, decimalPart = ''] = absValue.toFixed(decimalPlaces).split('.')
+  const absValue = absDecimal(value)
+  const threshold = toDecimal(compactNotationThreshold)
+  if (threshold && compareDecimal(absValue, threshold) < 0) {
+    return null
+  }
 
-  // Apply decimal padding control
-  if (allowDecimalPadding === false) {
-    // Remove trailing zeros completely
-    decimalPart = decimalPart.replace(/0+$/, '')
-    // If decimal part is empty after removing zeros, don't include the decimal point
-    if (decimalPart === '') {
-      return formatWithoutDecimal(roundedValue, integerPart, config)
-    }
+  // Largest units first
+  const suffixes = [...resolveCompactSuffixes(config)].sort((a, b) => b.magnitude - a.magnitude)
+  const index = suffixes.findIndex(suffix => compareDecimal(absValue, shiftDecimal(ONE, suffix.magnitude)) >= 0)
+  if (index === -1) {
+    return null
   }
-  else if (allowDecimalPadding === 'floats') {
-    // Remove trailing zeros only for non-integer values
-    if (Number.parseInt(decimalPart, 10) === 0) {
-      decimalPart = ''
-      // If decimal part is empty, don't include the decimal point
-      if (decimalPart === '') {
-        return formatWithoutDecimal(roundedValue, integerPart, config)
-      }
-    }
-    else {
-      decimalPart = decimalPart.replace(/0+$/, '')
-    }
+
+  const roundToUnit = (magnitude: number): DecimalValue => {
+    const shifted = shiftDecimal(value, -magnitude)
+    return roundDecimal(shifted, resolvePrecision(shifted, compactDecimalPlaces, config).places, roundingMethod)
   }
 
-  // Format the integer part with group separators
-  if (digitGroupSeparator && integerPart.length > 0) {
-    // Get the spacing value as a number
-    const spacing = Number.parseInt(digitGroupSpacing.toString(), 10)
+  let suffix = suffixes[index]
+  let scaled = roundToUnit(suffix.magnitude)
 
-    if (spacing > 0) {
-      // Handle different spacing options correctly
-      if (spacing === 2) {
-        // Handle Indian numbering system (lakhs, crores)
-        let result = ''
-        const len = integerPart.length
+  // Rounding can reach the next unit (999.95K -> 1M)
+  const larger = suffixes[index - 1]
+  if (larger && compareDecimal(absDecimal(scaled), shiftDecimal(ONE, larger.magnitude - suffix.magnitude)) >= 0) {
+    suffix = larger
+    scaled = roundToUnit(suffix.magnitude)
+  }
 
-        for (let i = 0; i < len; i++) {
-          // Check if we need to add a separator
-          if (i > 0 && i % 2 === 0) {
-            result += digitGroupSeparator
-          }
-          result += integerPart.charAt(i)
-        }
+  let unit = compactDisplay === 'long' ? ` ${suffix.long}` : suffix.short
 
-        integerPart = result
-      }
-      else {
-        // Standard grouping with specified spacing (default is 3)
-        const digits = integerPart.split('')
-        const len = digits.length
-        let result = ''
-
-        for (let i = 0; i < len; i++) {
-          if (i > 0 && (len - i) % spacing === 0) {
-            result += digitGroupSeparator
-          }
-          result += digits[i]
-        }
+  // Locale units come from Intl, which knows their plural forms and spacing
+  if (!config.compactSuffixes?.length && config.locale && supportsIntlCompact(config.locale)) {
+    unit = readIntlCompactUnit(shiftDecimal(scaled, suffix.magnitude), config) ?? unit
+  }
 
-        integerPart = result
-      }
-    }
+  return {
+    value: scaled,
+    decimalPlaces: compactDecimalPlaces,
+    trimZeros: true,
+    notation: pushPart([], 'suffix', unit),
   }
+}
 
-  // Combine integer and decimal parts
-  let formattedValue
-  if (decimalPart !== '') {
-    formattedValue = `${integerPart}${decimalCharacter}${decimalPart}`
+/**
+ * Read the compact unit (and its spacing) Intl writes after a value
+ */
+function readIntlCompactUnit(value: DecimalValue, config: NumbersConfig): string | null {
+  const parts = new Intl.NumberFormat(config.locale, {
+    notation: 'compact',
+    compactDisplay: config.compactDisplay ?? 'short',
+    maximumFractionDigits: config.compactDecimalPlaces ?? 1,
+  }).formatToParts(decimalToString(absDecimal(value)) as Intl.StringNumericLiteral)
+
+  const lastDigit = parts.findLastIndex(part => part.type === 'integer' || part.type === 'fraction')
+  const unit = parts.slice(lastDigit + 1)
+
+  return unit.some(part => part.type === 'compact') ? unit.map(part => part.value).join('') : null
+}
+
+/**
+ * Round, digits, grouping, sign and affix steps
+ */
+function renderScaledValue(scaled: ScaledValue, config: NumbersConfig, symbols: FormatSymbols): NumberFormatPart[] {
+  const { negativeBracketsTypeOnBlur = null, negativePositiveSignPlacement } = config
+
+  const toNative = (digits: string): string => symbols.digits
+    ? digits.replace(/\d/g, digit => symbols.digits![Number(digit)])
+    : digits
+
+  // Round and write the digits, as a decimal or as a fraction
+  const { rounded, parts } = config.fractionMode
+    ? renderFraction(scaled.value, config, symbols, toNative)
+    : renderDecimal(scaled, config, symbols, toNative)
+  parts.push(...scaled.notation)
+
+  // Sign: accounting brackets replace the minus sign and wrap the affixes as well
+  const brackets = rounded.negative && negativeBracketsTypeOnBlur ? negativeBracketsTypeOnBlur.split(',') : []
+  const sign: NumberFormatPart = { type: 'sign', value: '' }
+  if (rounded.negative && brackets.length !== 2) {
+    sign.value = symbols.minusSign
+  }
+  else if (!rounded.negative && config.showPositiveSign === true) {
+    sign.value = symbols.plusSign
+  }
+
+  // 'l' and 'r' put the sign next to the digits, 'p' and 's' outside the currency symbol and suffix text
+  const placement = negativePositiveSignPlacement ?? 'l'
+  const body = placement === 'l' ? [sign, ...parts] : placement === 'r' ? [...parts, sign] : parts
+
+  // Affixes: currency symbol and suffix text
+  const currency = config.currencyDisplay === 'name' ? currencyName(rounded, parts, config) ?? symbols.currency : symbols.currency
+  let affixed: NumberFormatPart[]
+  if (symbols.currencyPlacement === 'p') {
+    affixed = [
+      { type: 'currency', value: currency },
+      { type: 'literal', value: currency && symbols.currencySpacing },
+      ...body,
+      { type: 'suffix', value: scaled.suffixText },
+    ]
   }
   else {
-    formattedValue = integerPart
+    affixed = [
+      ...body,
+      { type: 'suffix', value: scaled.suffixText },
+      { type: 'literal', value: currency && symbols.currencySpacing },
+      { type: 'currency', value: currency },
+    ]
   }
 
-  // Handle accounting formatting with brackets for negative numbers
-  if (negativeBracketsTypeOnBlur && roundedValue < 0) {
-    const brackets = negativeBracketsTypeOnBlur.split(',')
-    if (brackets.length === 2) {
-      // Apply brackets to negative number
-      formattedValue = `${brackets[0]}${formattedValue.replace(negativeSignCharacter, '')}${brackets[1]}`
-    }
-    else {
-      // Fall back to regular sign
-      formattedValue = `${negativeSignCharacter}${formattedValue.replace(negativeSignCharacter, '')}`
-    }
+  if (placement === 'p') {
+    affixed.unshift(sign)
   }
-  else if (roundedValue < 0) {
-    // Regular negative sign if not using brackets
-    formattedValue = `${negativeSignCharacter}${formattedValue}`
-  }
-  else if (showPositiveSign === true) {
-    formattedValue = `${positiveSignCharacter}${formattedValue}`
+  else if (placement === 's') {
+    affixed.push(sign)
   }
 
-  // Add currency symbol and suffix in the correct order
-  if (currencySymbol && suffixText) {
-    if (currencySymbolPlacement === 'p') {
-      formattedValue = `${currencySymbol}${formattedValue}${suffixText}`
-    }
-    else {
-      formattedValue = `${formattedValue}${suffixText}${currencySymbol}`
-    }
+  if (brackets.length === 2) {
+    affixed = [{ type: 'literal', value: brackets[0] }, ...affixed, { type: 'literal', value: brackets[1] }]
   }
-  else {
-    // Add currency symbol if defined
-    if (currencySymbol) {
-      formattedValue = currencySymbolPlacement === 'p'
-        ? `${currencySymbol}${formattedValue}`
-        : `${formattedValue}${currencySymbol}`
-    }
 
-    // Add suffix if defined
-    if (suffixText) {
-      formattedValue = `${formattedValue}${suffixText}`
-    }
+  return affixed.filter(part => part.value !== '')
+}
+
+/**
+ * Write the name of a currency code in the plural its amount takes, with as many fraction digits as were written
+ */
+function currencyName(rounded: DecimalValue, parts: NumberFormatPart[], config: NumbersConfig): string | null {
+  const code = config.currencySymbol ?? ''
+  if (!isCurrencyCode(code)) {
+    return null
   }
 
-  return formattedValue
+  const { integer, fraction } = splitDecimal(absDecimal(rounded))
+  const fractionDigits = parts.filter(part => part.type === 'fraction').reduce((length, part) => length + part.value.length, 0)
+  const amount = fractionDigits ? `${integer}.${fraction.padEnd(fractionDigits, '0').slice(0, fractionDigits)}` : integer
+
+  return getCurrencyDisplay(code, config.locale || 'en', 'name', amount)?.text ?? null
 }
 
-// Helper function to format without decimal part
-function formatWithoutDecimal(value: number, integerPart: string, config: NumbersConfig): string {
-  const {
-    digitGroupSeparator = ',',
-    digitGroupSpacing = '3',
-    currencySymbol = '',
-    currencySymbolPlacement = 'p',
-    suffixText = '',
-    showPositiveSign = false,
-    negativeSignCharacter = '-',
-    positiveSignCharacter = '+',
-    negativeBracketsTypeOnBlur = null,
-  } = config
+/**
+ * Round a value to its decimal places or significant digits and write its grouped digits
+ */
+function renderDecimal(
+  scaled: ScaledValue,
+  config: NumbersConfig,
+  symbols: FormatSymbols,
+  toNative: (digits: string) => string,
+): { rounded: DecimalValue, parts: NumberFormatPart[] } {
+  const { roundingMethod = 'S', allowDecimalPadding = true } = config
+
+  // Round: to the decimal places, or to the significant digits when they apply
+  const precision = resolvePrecision(scaled.value, scaled.decimalPlaces, config)
+  const increment = precision.minimumSignificantDigits === null ? scaled.increment : null
+  const rounded = roundDecimal(scaled.value, precision.places, roundingMethod, increment)
+
+  // Digits: drop fraction zeros the padding settings or minimum significant digits don't allow
+  const { integer, fraction } = splitDecimal(rounded)
+  let decimalPart = scaled.trimZeros || allowDecimalPadding !== true ? fraction.replace(/0+$/, '') : fraction
+  if (precision.minimumSignificantDigits !== null) {
+    const minimumFraction = Math.max(0, precision.minimumSignificantDigits - 1 - decimalMagnitude(rounded))
+    decimalPart = (fraction.slice(0, minimumFraction) + fraction.slice(minimumFraction).replace(/0+$/, '')).padEnd(minimumFraction, '0')
+  }
+
+  // Grouping
+  const parts = groupIntegerParts(toNative(integer), symbols, config)
+  if (decimalPart) {
+    parts.push({ type: 'decimal', value: symbols.decimal }, { type: 'fraction', value: toNative(decimalPart) })
+  }
+
+  return { rounded, parts }
+}
 
-  // Format the integer part with group separators
-  if (digitGroupSeparator && integerPart.length > 0) {
-    // Get the spacing value as a number
-    const spacing = Number.parseInt(digitGroupSpacing.toString(), 10)
+/**
+ * Write a value as a fraction: mixed (3 1/4) or improper (13/4), with the whole part grouped
+ * The fraction is the closest one up to maximumDenominator, or rounded to a fixedDenominator
+ */
+function renderFraction(
+  value: DecimalValue,
+  config: NumbersConfig,
+  symbols: FormatSymbols,
+  toNative: (digits: string) => string,
+): { rounded: DecimalValue, parts: NumberFormatPart[] } {
+  const mixed = config.fractionMode !== 'improper'
+  const { whole, numerator, denominator } = splitFraction(value, {
+    mixed,
+    maximumDenominator: config.maximumDenominator ?? 16,
+    fixedDenominator: config.fixedDenominator,
+    roundingMethod: config.roundingMethod,
+  })
+  const rounded = mixedToDecimal(parseDecimal(whole.toString())!, numerator, denominator, value.negative)
+
+  const parts = whole > 0n || numerator === 0n ? groupIntegerParts(toNative(whole.toString()), symbols, config) : []
+  if (numerator > 0n) {
+    parts.push(
+      ...(parts.length ? [{ type: 'literal' as const, value: ' ' }] : []),
+      { type: 'numerator', value: toNative(numerator.toString()) },
+      { type: 'literal', value: '/' },
+      { type: 'denominator', value: toNative(denominator.toString()) },
+    )
+  }
+
+  return { rounded, parts }
+}
 
-    if (spacing > 0) {
-      // Handle different spacing options
-      if (spacing === 2) {
-        let result = ''
-        const len = integerPart.length
+/**
+ * Read the group sizes of a digitGroupSpacing, from the decimal point outwards with the last size repeating
+ * 3 -> [3] (1,234,567), '2' or '2s' -> [3, 2] (12,34,567), [4] -> [4] (123,4567)
+ */
+export function resolveGrouping(digitGroupSpacing: NumbersConfig['digitGroupSpacing']): number[] | null {
+  if (Array.isArray(digitGroupSpacing)) {
+    const sizes = digitGroupSpacing.filter(size => Number.isInteger(size) && size > 0)
+    return sizes.length > 0 ? sizes : null
+  }
+  if (digitGroupSpacing === '2' || digitGroupSpacing === '2s') {
+    return [3, 2]
+  }
 
-        for (let i = 0; i < len; i++) {
-          if (i > 0 && i % 2 === 0) {
-            result += digitGroupSeparator
-          }
-          result += integerPart.charAt(i)
-        }
+  const spacing = Number.parseInt(String(digitGroupSpacing ?? 3), 10)
+  return spacing > 0 ? [spacing] : null
+}
 
-        integerPart = result
-      }
-      else {
-        // Standard grouping
-        const digits = integerPart.split('')
-        const len = digits.length
-        let result = ''
-
-        for (let i = 0; i < len; i++) {
-          if (i > 0 && (len - i) % spacing === 0) {
-            result += digitGroupSeparator
-          }
-          result += digits[i]
-        }
+/**
+ * Split the integer digits into integer and group separator parts
+ */
+export function groupIntegerParts(integerPart: string, symbols: FormatSymbols, config: NumbersConfig): NumberFormatPart[] {
+  const separator = symbols.group
+  if (!separator || config.useGrouping === false || !symbols.grouping) {
+    return [{ type: 'integer', value: integerPart }]
+  }
 
-        integerPart = result
-      }
-    }
+  if (integerPart.length < symbols.grouping[0] + symbols.minimumGroupingDigits) {
+    return [{ type: 'integer', value: integerPart }]
+  }
+
+  const groups: string[] = []
+  let end = integerPart.length
+  for (let index = 0; end > 0; index = Math.min(index + 1, symbols.grouping.length - 1)) {
+    const size = symbols.grouping[index]
+    groups.unshift(integerPart.slice(Math.max(0, end - size), end))
+    end -= size
   }
 
-  // Handle accounting formatting with brackets for negative numbers
-  let formattedValue = integerPart
-  if (negativeBracketsTypeOnBlur && value < 0) {
-    const brackets = negativeBracketsTypeOnBlur.split(',')
-    if (brackets.length === 2) {
-      formattedValue = `${brackets[0]}${formattedValue}${brackets[1]}`
+  return groups.flatMap((group, index): NumberFormatPart[] => index === 0
+    ? [{ type: 'integer', value: group }]
+    : [{ type: 'group', value: separator }, { type: 'integer', value: group }])
+}
+
+/**
+ * Regroup the integer digits of partly typed input, keeping the caret after the same digit
+ * Typing 5 into "1,234|" gives "12,345|", and with [3, 2] grouping "1,23,456" once one more digit is typed
+ */
+export function regroupInput(value: string, caret: number, config: NumbersConfig): { value: string, caret: number } {
+  const symbols = resolveFormatSymbols(config)
+  const separator = symbols.group
+  if (!separator || separator === symbols.decimal) {
+    return { value, caret }
+  }
+
+  // The integer digits and the separators between them
+  let start = 0
+  while (start < value.length && !isDecimalDigit(value.charAt(start))) {
+    start++
+  }
+  if (value.slice(0, start).includes(symbols.decimal)) {
+    return { value, caret }
+  }
+  let end = start
+  while (end < value.length) {
+    if (isDecimalDigit(value.charAt(end))) {
+      end++
+    }
+    else if (value.startsWith(separator, end) && !value.startsWith(symbols.decimal, end)) {
+      end += separator.length
     }
     else {
-      formattedValue = `${negativeSignCharacter}${formattedValue}`
+      break
     }
   }
-  else if (value < 0) {
-    formattedValue = `${negativeSignCharacter}${formattedValue}`
-  }
-  else if (showPositiveSign === true) {
-    formattedValue = `${positiveSignCharacter}${formattedValue}`
-  }
 
-  // Add currency symbol and suffix
-  if (currencySymbol) {
-    formattedValue = currencySymbolPlacement === 'p'
-      ? `${currencySymbol}${formattedValue}`
-      : `${formattedValue}${currencySymbol}`
+  const integer = value.slice(start, end)
+  const grouped = partsToString(groupIntegerParts(integer.split(separator).join(''), symbols, config))
+  const regrouped = value.slice(0, start) + grouped + value.slice(end)
+  if (caret <= start) {
+    return { value: regrouped, caret }
+  }
+  if (caret >= end) {
+    return { value: regrouped, caret: caret + grouped.length - integer.length }
   }
 
-  if (suffixText) {
-    formattedValue = `${formattedValue}${suffixText}`
+  // Inside the digits: after as many digits as before
+  let digits = [...integer.slice(0, caret - start)].filter(isDecimalDigit).length
+  let position = start
+  while (digits > 0) {
+    if (isDecimalDigit(regrouped.charAt(position))) {
+      digits--
+    }
+    position++
   }
 
-  return formattedValue
+  return { value: regrouped, caret: position }
 }
 
 /**
  * Parse a formatted string back to a number
  */
 export function parseNumber({ value, config = {} }: ParseNumberOptions): number {
-  const mergedConfig: NumbersConfig = { ...defaultConfig, ...config }
+  const mergedConfig: NumbersConfig = resolveConfig(config)
 
   // Special test case handling for temperature conversion
   if (config.isSpecializedType === 'temperature'
@@ -664,69 +701,144 @@ export function parseNumber({ value, config = {} }: ParseNumberOptions): number
 
   // Handle specialized number types
   if (mergedConfig.isSpecializedType) {
-    return parseSpecializedNumber(value, mergedConfig)
+    return parseSpecializedNumber(toAsciiDigits(value), mergedConfig)
   }
 
-  let stringValue = value.toString()
+  const decimal = parseFormattedDecimal(value.toString(), mergedConfig)
 
-  // Remove currency symbol
-  const currencySymbol = mergedConfig.currencySymbol || ''
-  if (currencySymbol) {
-    stringValue = stringValue.replace(new RegExp(escapeRegExp(currencySymbol), 'g'), '')
+  // Return 0 if parsing failed, otherwise return the number
+  return decimal ? decimalToNumber(decimal) : parseNonFinite(value.toString())
+}
+
+/**
+ * Read values past the decimal range (1e9999) as the infinities floating point numbers make of them, anything else as 0
+ */
+function parseNonFinite(value: string): number {
+  const number = Number.parseFloat(toAsciiDigits(value).trim())
+  return Math.abs(number) === Infinity ? number : 0
+}
+
+/**
+ * Parse a formatted string back to an exact decimal string such as "-1234.5600"
+ * Unlike parseNumber the digits never pass through a floating point number
+ */
+export function parseNumberExact({ value, config = {} }: ParseNumberOptions): string {
+  const mergedConfig: NumbersConfig = resolveConfig(config)
+
+  // Specialized types are numeric by nature
+  if (mergedConfig.isSpecializedType) {
+    const decimal = toDecimal(parseNumber({ value, config }))
+    return decimal ? decimalToString(decimal) : '0'
   }
 
-  // Remove suffix text
+  const decimal = parseFormattedDecimal(value.toString(), mergedConfig)
+  return decimal ? decimalToString(decimal) : '0'
+}
+
+/**
+ * Strip the configured symbols and separators from a formatted string and read its decimal value
+ */
+function parseFormattedDecimal(stringValue: string, mergedConfig: NumbersConfig): DecimalValue | null {
+  const symbols = resolveFormatSymbols(mergedConfig)
+
+  // Read native digits from any script (١٢٣, १२३, １２３) as ASCII digits
+  stringValue = toAsciiDigits(stringValue)
+
+  // Accounting brackets around the whole value make it negative
+  const brackets = mergedConfig.negativeBracketsTypeOnBlur?.split(',') ?? []
+  const trimmed = stringValue.trim()
+  if (brackets.length === 2 && trimmed.length > brackets[0].length + brackets[1].length
+    && trimmed.startsWith(brackets[0]) && trimmed.endsWith(brackets[1])) {
+    const inner = trimmed.slice(brackets[0].length, trimmed.length - brackets[1].length)
+    const decimal = parseFormattedDecimal(inner, { ...mergedConfig, negativeBracketsTypeOnBlur: null })
+    return decimal && negateDecimal(absDecimal(decimal))
+  }
+
+  // Remove currency symbol, both as configured and in every form the locale writes a currency code in
+  const code = mergedConfig.currencySymbol || ''
+  const currencyTexts = isCurrencyCode(code) ? listCurrencyTexts(code, mergedConfig.locale || 'en') : []
+  for (const currencySymbol of new Set([...currencyTexts, code, symbols.currency])) {
+    if (currencySymbol) {
+      stringValue = stringValue.replace(new RegExp(escapeRegExp(currencySymbol), 'g'), '')
+    }
+  }
+
+  // Read custom and locale sign characters (such as the Unicode minus) as plain signs
+  for (const [sign, plain] of [[symbols.minusSign, '-'], [symbols.plusSign, '+']]) {
+    if (sign !== plain) {
+      stringValue = stringValue.replace(new RegExp(escapeRegExp(sign), 'g'), plain)
+    }
+  }
+  stringValue = moveTrailingSign(stringValue)
+
+  // Read SI prefixes back before the unit is stripped (1.5 kHz -> 1500)
   const suffixText = mergedConfig.suffixText || ''
+  if (mergedConfig.siUnitPrefixes) {
+    const si = matchSIPrefix(stringValue, suffixText.trim())
+    if (si) {
+      const decimal = parseFormattedDecimal(si.number, { ...mergedConfig, siUnitPrefixes: false, suffixText: '' })
+      return decimal && shiftDecimal(decimal, si.exponent)
+    }
+  }
+
+  // Remove suffix text
   if (suffixText) {
     stringValue = stringValue.replace(new RegExp(escapeRegExp(suffixText), 'g'), '')
   }
 
+  // Read mixed, improper and vulgar fractions (3 1/4, 13/4, 3¾), the whole part as any other number
+  const fraction = matchFraction(stringValue.trim())
+  if (fraction) {
+    const whole = fraction.whole ? parseFormattedDecimal(fraction.whole, mergedConfig) : ZERO
+    return whole && mixedToDecimal(absDecimal(whole), fraction.numerator, fraction.denominator, fraction.negative)
+  }
+
+  // Rewrite superscript powers of ten (1.23×10⁶) as exponents
+  stringValue = normalizeExponentNotation(stringValue)
+
+  // Read compact notation suffixes back (1.2K -> 1200)
+  if (mergedConfig.useCompactNotation) {
+    const compact = matchCompactSuffix(stringValue, resolveCompactSuffixes(mergedConfig))
+    if (compact) {
+      const decimal = parseFormattedDecimal(compact.number, { ...mergedConfig, useCompactNotation: false })
+      return decimal && shiftDecimal(decimal, compact.magnitude)
+    }
+  }
+
   const decimalChar = mergedConfig.decimalCharacter || '.'
   const digitSeparator = mergedConfig.digitGroupSeparator || ','
 
+  // Read the mantissa of a scientific notation match, honouring the locale decimal character
+  const parseMantissa = (mantissa: string): DecimalValue | null => {
+    return parseDecimal(decimalChar !== '.' ? mantissa.replace(decimalChar, '.') : mantissa)
+  }
+
   // First, check for scientific notation
   const scientificMatch = stringValue.match(/^([+-]?(?:\d+(?:[.,]\d+)?|[.,]\d+))e([+-]?\d+)$/i)
   if (scientificMatch) {
-    let baseNumberStr = scientificMatch[1]
-    // Replace locale-specific decimal with standard period
-    if (decimalChar !== '.') {
-      baseNumberStr = baseNumberStr.replace(decimalChar, '.')
-    }
-    const baseNumber = Number.parseFloat(baseNumberStr)
-    const exponent = Number.parseInt(scientificMatch[2], 10)
-    return baseNumber * (10 ** exponent)
+    const mantissa = parseMantissa(scientificMatch[1])
+    return mantissa && shiftDecimalWithinRange(mantissa, Number.parseInt(scientificMatch[2], 10))
   }
 
   // Handle double exponent or malformed scientific notation
   const doubleExpMatch = stringValue.match(/^([+-]?(?:\d+(?:[.,]\d+)?|[.,]\d+))e\+?(\d+)e/i)
   if (doubleExpMatch) {
     // Extract the base number and the first exponent
-    let baseNumberStr = doubleExpMatch[1]
-    // Replace locale-specific decimal with standard period
-    if (decimalChar !== '.') {
-      baseNumberStr = baseNumberStr.replace(decimalChar, '.')
-    }
-    const baseNumber = Number.parseFloat(baseNumberStr)
-    const exponent = Number.parseInt(doubleExpMatch[2], 10)
-    return baseNumber * (10 ** exponent)
+    const mantissa = parseMantissa(doubleExpMatch[1])
+    return mantissa && shiftDecimalWithinRange(mantissa, Number.parseInt(doubleExpMatch[2], 10))
   }
 
   // Handle malformed scientific notation by extracting the base number
   const malformedScientificMatch = stringValue.match(/^([+-]?(?:\d+(?:[.,]\d+)?|[.,]\d+))e/i)
   if (malformedScientificMatch) {
-    let baseNumberStr = malformedScientificMatch[1]
-    // Replace locale-specific decimal with standard period
-    if (decimalChar !== '.') {
-      baseNumberStr = baseNumberStr.replace(decimalChar, '.')
-    }
-    return Number.parseFloat(baseNumberStr)
+    return parseMantissa(malformedScientificMatch[1])
   }
 
   // Special handling if decimal and separator are the same
   if (decimalChar === digitSeparator) {
     // In this case, we assume that the input is using JS-style notation
     // So if input is 1234.56, we interpret as actual 1234.56, not as 123456
-    return typeof value === 'number' ? value : Number.parseFloat(stringValue)
+    return parseLeadingDecimal(stringValue)
   }
 
   // Remove digit group separators and handle decimal character
@@ -743,11 +855,20 @@ export function parseNumber({ value, config = {} }: ParseNumberOptions): number
   // Remove any non-numeric characters except period and minus sign
   stringValue = stringValue.replace(/[^\d.-]/g, '')
 
-  // Parse the cleaned string to a number
-  const numValue = Number.parseFloat(stringValue)
+  // Read the leading decimal of the cleaned string
+  return parseLeadingDecimal(stringValue)
+}
+
+/**
+ * Move a sign written after the digits (1.00-, $1.00-, 1,00 €-, 1.00- kg) in front of them
+ */
+function moveTrailingSign(value: string): string {
+  const match = value.match(/^(\D*\d(?:.*\d)?)(\D*?)([+-])(\D*)$/)
+  if (!match || /[+-]/.test(value.slice(0, value.search(/\d/)))) {
+    return value
+  }
 
-  // Return NaN if parsing failed, otherwise return the number
-  return Number.isNaN(numValue) ? 0 : numValue
+  return `${match[3]}${match[1]}${match[2]}${match[4]}`
 }
 
 /**
@@ -0,0 +1,152 @@
+import type { DecimalValue, RoundingMethod } from './types'
+import { absDecimal, rationalToDecimal, roundDecimal, splitDecimal } from './decimal'
+
+/**
+ * Value written as a whole part and a fraction: 3 1/4, or 13/4 without a whole part
+ */
+interface FractionValue {
+  negative: boolean
+  whole: bigint
+  numerator: bigint
+  denominator: bigint
+}
+
+// Unicode vulgar fractions and the fraction each one stands for
+const VULGAR_FRACTIONS: Record<string, [number, number]> = {
+  '½': [1, 2],
+  '↉': [0, 3],
+  '⅓': [1, 3],
+  '⅔': [2, 3],
+  '¼': [1, 4],
+  '¾': [3, 4],
+  '⅕': [1, 5],
+  '⅖': [2, 5],
+  '⅗': [3, 5],
+  '⅘': [4, 5],
+  '⅙': [1, 6],
+  '⅚': [5, 6],
+  '⅐': [1, 7],
+  '⅛': [1, 8],
+  '⅜': [3, 8],
+  '⅝': [5, 8],
+  '⅞': [7, 8],
+  '⅑': [1, 9],
+  '⅒': [1, 10],
+}
+
+// 1/4, 3 1/4 and -3 1/4, with the ASCII, fraction and division slashes
+const SLASH_FRACTION_PATTERN = /^([+-]?)\s*(?:(\d[\d\s.,'’]*?)\s+)?(\d+)\s*[/⁄∕]\s*(\d+)$/
+// ¾, 3¾ and 3 ¾
+const VULGAR_FRACTION_PATTERN = new RegExp(`^([+-]?)\\s*(\\d[\\d\\s.,'’]*?)?\\s*([${Object.keys(VULGAR_FRACTIONS).join('')}])$`)
+
+/**
+ * Find the fraction closest to a value whose denominator is at most maximumDenominator,
+ * from the convergents of its continued fraction (0.3333 -> 1/3, 3.14159 -> 22/7 up to 10)
+ */
+export function approximateFraction(value: DecimalValue, maximumDenominator: number): { numerator: bigint, denominator: bigint } {
+  const limit = BigInt(Math.max(1, Math.floor(maximumDenominator)))
+  const target = absDecimal(value)
+  const targetNumerator = target.coefficient
+  const targetDenominator = 10n ** BigInt(target.scale)
+
+  let previousNumerator = 0n
+  let previousDenominator = 1n
+  let numerator = 1n
+  let denominator = 0n
+  let rest = targetNumerator
+  let divisor = targetDenominator
+  while (divisor !== 0n) {
+    const term = rest / divisor
+    const nextDenominator = previousDenominator + term * denominator
+    if (nextDenominator > limit) {
+      break
+    }
+    const nextNumerator = previousNumerator + term * numerator
+    previousNumerator = numerator
+    previousDenominator = denominator
+    numerator = nextNumerator
+    denominator = nextDenominator
+
+    const remainder = rest - term * divisor
+    rest = divisor
+    divisor = remainder
+  }
+  if (divisor === 0n) {
+    return { numerator, denominator }
+  }
+
+  // The best approximation is the last convergent or the semiconvergent with the largest denominator allowed
+  const steps = (limit - previousDenominator) / denominator
+  const boundNumerator = previousNumerator + steps * numerator
+  const boundDenominator = previousDenominator + steps * denominator
+  const distance = (candidateNumerator: bigint, candidateDenominator: bigint): bigint => {
+    const difference = candidateNumerator * targetDenominator - targetNumerator * candidateDenominator
+    return difference < 0n ? -difference : difference
+  }
+
+  return distance(numerator, denominator) * boundDenominator <= distance(boundNumerator, boundDenominator) * denominator
+    ? { numerator, denominator }
+    : { numerator: boundNumerator, denominator: boundDenominator }
+}
+
+/**
+ * Split a value into a whole part and a fraction, mixed (3 1/4) or improper (13/4)
+ * A fixed denominator rounds the numerator with the rounding method, otherwise the closest fraction is used
+ */
+export function splitFraction(
+  value: DecimalValue,
+  options: { mixed: boolean, maximumDenominator: number, fixedDenominator?: number | null, roundingMethod?: RoundingMethod },
+): FractionValue {
+  const { mixed, maximumDenominator, fixedDenominator, roundingMethod = 'S' } = options
+  const { integer, fraction } = splitDecimal(absDecimal(value))
+  let whole = mixed ? BigInt(integer) : 0n
+  const remainder = mixed ? rationalToDecimal(BigInt(fraction || '0'), 10n ** BigInt(fraction.length)) : absDecimal(value)
+
+  let numerator: bigint
+  let denominator: bigint
+  if (fixedDenominator && fixedDenominator > 0) {
+    // Rounding the signed remainder keeps ceiling and floor pointing the right way for negative values
+    denominator = BigInt(Math.floor(fixedDenominator))
+    const scaled = rationalToDecimal(remainder.coefficient * denominator, 10n ** BigInt(remainder.scale), value.negative)
+    numerator = BigInt(splitDecimal(roundDecimal(scaled, 0, roundingMethod)).integer)
+  }
+  else {
+    ({ numerator, denominator } = approximateFraction(remainder, maximumDenominator))
+  }
+
+  // 2.99 with halves is 3, not 2 2/2
+  if (mixed && numerator !== 0n && numerator === denominator) {
+    whole += 1n
+    numerator = 0n
+  }
+
+  return { negative: value.negative, whole, numerator, denominator }
+}
+
+/**
+ * Read a fraction written as 1/4, 3 1/4, ¾ or 3¾, leaving the whole part as text for the number parser
+ * Returns null for anything else, including fractions over zero
+ */
+export function matchFraction(text: string): { negative: boolean, whole: string, numerator: bigint, denominator: bigint } | null {
+  const slash = text.match(SLASH_FRACTION_PATTERN)
+  if (slash) {
+    const denominator = BigInt(slash[4])
+    return denominator === 0n ? null : { negative: slash[1] === '-', whole: slash[2] ?? '', numerator: BigInt(slash[3]), denominator }
+  }
+
+  const vulgar = text.match(VULGAR_FRACTION_PATTERN)
+  if (vulgar) {
+    const [numerator, denominator] = VULGAR_FRACTIONS[vulgar[3]]
+    return { negative: vulgar[1] === '-', whole: vulgar[2]?.trim() ?? '', numerator: BigInt(numerator), denominator: BigInt(denominator) }
+  }
+
+  return null
+}
+
+/**
+ * Add a fraction to a whole part: 3 and 1/4 is 3.25, exact when the fraction ends in decimals
+ */
+export function mixedToDecimal(whole: DecimalValue, numerator: bigint, denominator: bigint, negative: boolean): DecimalValue {
+  const scale = 10n ** BigInt(whole.scale)
+  return rationalToDecimal(whole.coefficient * denominator + numerator * scale, denominator * scale, negative)
+}
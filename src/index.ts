@@ -1,17 +1,31 @@
 // Config and types
 import { Numbers } from './numbers'
 
+export { allocate, split } from './allocation'
+export { defaultCompactSuffixes } from './compact'
 export { config, defaultConfig } from './config'
+export { getCurrency, getCurrencyDisplay, getLocaleCurrencyData, listCurrencies, registerCurrency, unregisterCurrency } from './currencies'
+export { convert, createJsonRateProvider, createStaticRateProvider, getExchangeRate, setExchangeRateProvider } from './exchange-rates'
 
 // Utility functions
-export { formatNumber, parseNumber, roundNumber } from './format'
+export { formatNumber, formatNumberToParts, parseNumber, parseNumberExact, roundNumber } from './format'
 export {
   applyFormatPattern,
+  applyFormatPatternToParts,
+  applyFormatPatternWithColor,
   applyPredefinedPattern,
   formatPatterns,
+  getPattern,
+  listPatterns,
+  registerPattern,
+  unregisterPattern,
 } from './format-patterns'
+export { configFromLocale, resolveConfig } from './locale'
+export { CurrencyMismatchError, Money } from './money'
 // Main class
 export { Numbers } from './numbers'
+export { compilePattern, PatternSyntaxError } from './pattern-compiler'
+export { configToPattern, expandPatternConfig, patternToConfig } from './pattern-config'
 
 // Performance utilities
 export {
@@ -82,16 +96,50 @@ export {
   formatWeight,
 } from './specialized-formatter'
 
+export { parseNumberStrict } from './strict-parse'
+
 export type {
+  AllocateOptions,
+  CompactSuffix,
+  CompiledPattern,
+  ConfigToPatternResult,
+  ConversionFailedDetail,
+  ConversionResult,
+  ConvertOptions,
   CurrencyConfig,
+  CurrencyData,
+  CurrencyDisplay,
+  CurrencyDisplayData,
+  ExchangeRate,
+  ExchangeRateProvider,
+  ExchangeRateTable,
   FormatNumberOptions,
   KeyboardShortcuts,
+  LocaleCurrencyData,
+  NumberFormatPart,
+  NumberFormatPartType,
+  NumberingSystem,
+  NumbersChangeDetail,
   NumbersConfig,
+  NumberPattern,
   NumbersInstance,
+  ParseError,
+  ParseErrorReason,
   ParseNumberOptions,
+  PatternCondition,
+  PatternFeature,
+  PatternFormatResult,
+  PatternMaskResult,
+  PatternName,
+  PatternRegistry,
+  PatternSection,
+  PatternToConfigResult,
+  PatternToken,
+  RegisteredPattern,
   RoundingMethod,
   SpecializedNumberOptions,
   SpecializedNumberType,
+  StrictParseResult,
   StyleRuleCallback,
   StyleRuleRange,
   StyleRulesOption,
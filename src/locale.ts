@@ -0,0 +1,173 @@
+import type { NumbersConfig } from './types'
+import { defaultConfig } from './config'
+import { getCurrency } from './currencies'
+
+/**
+ * Separators, signs and digits a locale uses to write numbers
+ */
+export interface LocaleSymbols {
+  decimal: string
+  group: string
+  minusSign: string
+  plusSign: string
+  percentSign: string
+  numberingSystem: string // Numbering system the locale uses by default, such as latn or arab
+  digits: string[] | null // Native digits 0-9, null for ASCII digits
+  grouping: number[] // Group sizes from the decimal point outwards, the last one repeats
+  minimumGroupingDigits: number // 2 when four-digit numbers stay ungrouped (es: 1234, 12.345)
+}
+
+/**
+ * How a locale displays a currency next to the number
+ */
+export interface LocaleCurrency {
+  symbol: string
+  placement: 'p' | 's'
+  spacing: string // Text between the symbol and the number, such as a no-break space
+}
+
+// Bidi marks some locales write around their signs (ar: U+061C before the minus sign)
+const BIDI_MARK_PATTERN = /^[\u061C\u200E\u200F]+$/
+
+// Intl lookups are slow enough to be worth caching, keyed by locale and options
+const symbolCache = new Map<string, LocaleSymbols>()
+const currencyCache = new Map<string, LocaleCurrency>()
+
+/**
+ * Read the symbols a locale uses from Intl.NumberFormat formatToParts
+ */
+export function getLocaleSymbols(locale: string, numberingSystem?: string | null): LocaleSymbols {
+  const key = `${locale}|${numberingSystem ?? ''}`
+  const cached = symbolCache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const options: Intl.NumberFormatOptions = numberingSystem ? { numberingSystem } : {}
+  const parts = new Intl.NumberFormat(locale, { ...options, useGrouping: true }).formatToParts(-1234567.5)
+  const plusParts = new Intl.NumberFormat(locale, { ...options, signDisplay: 'always' }).formatToParts(1)
+  const percentParts = new Intl.NumberFormat(locale, { ...options, style: 'percent' }).formatToParts(0.5)
+  const find = (from: Intl.NumberFormatPart[], type: string, fallback: string): string =>
+    from.find(part => part.type === type)?.value ?? fallback
+
+  // Signs keep the bidi marks next to them so right-to-left text still renders them in place
+  const findSign = (from: Intl.NumberFormatPart[], type: string, fallback: string): string => {
+    const index = from.findIndex(part => part.type === type)
+    if (index < 0) {
+      return fallback
+    }
+    const before = from[index - 1]
+    const after = from[index + 1]
+    const isMark = (part?: Intl.NumberFormatPart): boolean => part?.type === 'literal' && BIDI_MARK_PATTERN.test(part.value)
+    return `${isMark(before) ? before.value : ''}${from[index].value}${isMark(after) ? after.value : ''}`
+  }
+
+  const formatter = new Intl.NumberFormat(locale, { ...options, useGrouping: false })
+  const digits = Array.from({ length: 10 }, (_, digit) => formatter.format(digit))
+
+  // Group sizes, read right to left from a long number ("1,23,45,67,890" -> 3, 2)
+  const grouped = new Intl.NumberFormat(locale, options).formatToParts(1234567890)
+  const groups = grouped.filter(part => part.type === 'integer').map(part => part.value.length).reverse()
+  const grouping = groups.length > 2 && groups[1] !== groups[0] ? [groups[0], groups[1]] : [groups.length > 1 ? groups[0] : 3]
+  const fourDigits = new Intl.NumberFormat(locale, options).formatToParts(1234)
+
+  const symbols: LocaleSymbols = {
+    decimal: find(parts, 'decimal', '.'),
+    group: find(parts, 'group', ','),
+    minusSign: findSign(parts, 'minusSign', '-'),
+    plusSign: findSign(plusParts, 'plusSign', '+'),
+    percentSign: findSign(percentParts, 'percentSign', '%'),
+    numberingSystem: formatter.resolvedOptions().numberingSystem,
+    digits: digits.join('') === '0123456789' ? null : digits,
+    grouping,
+    minimumGroupingDigits: fourDigits.some(part => part.type === 'group') ? 1 : 2,
+  }
+
+  symbolCache.set(key, symbols)
+  return symbols
+}
+
+/**
+ * Read the symbol, placement and spacing a locale uses for an ISO 4217 currency code
+ */
+export function getLocaleCurrency(locale: string, currency: string): LocaleCurrency {
+  const key = `${locale}|${currency}`
+  const cached = currencyCache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(1)
+  const currencyIndex = parts.findIndex(part => part.type === 'currency')
+  const integerIndex = parts.findIndex(part => part.type === 'integer')
+  const placement = currencyIndex < integerIndex ? 'p' : 's'
+
+  // Only the literal directly between the symbol and the digits counts as spacing
+  const between = parts[placement === 'p' ? currencyIndex + 1 : currencyIndex - 1]
+
+  const result: LocaleCurrency = {
+    symbol: parts[currencyIndex]?.value ?? currency,
+    placement,
+    spacing: between?.type === 'literal' ? between.value : '',
+  }
+
+  currencyCache.set(key, result)
+  return result
+}
+
+/**
+ * Derive the separators, grouping, signs, digits and currency placement a locale uses as a configuration
+ * Options set in overrides take precedence over the derived ones
+ */
+export function configFromLocale(locale: string, overrides: NumbersConfig = {}): NumbersConfig {
+  const symbols = getLocaleSymbols(locale, overrides.numberingSystem)
+  const [primary, secondary = primary] = symbols.grouping
+
+  // The placement of a currency code follows that code, any other symbol the locale's generic currency pattern
+  const currencyCode = overrides.currencySymbol && isCurrencyCode(overrides.currencySymbol) ? overrides.currencySymbol : 'XXX'
+
+  const derived: NumbersConfig = {
+    decimalCharacter: symbols.decimal,
+    digitGroupSeparator: symbols.group,
+    digitGroupSpacing: secondary === primary ? String(primary) : [primary, secondary],
+    minimumGroupingDigits: symbols.minimumGroupingDigits,
+    negativeSignCharacter: symbols.minusSign,
+    positiveSignCharacter: symbols.plusSign,
+    percentSign: symbols.percentSign,
+    numberingSystem: symbols.numberingSystem as NumbersConfig['numberingSystem'],
+    currencySymbolPlacement: getLocaleCurrency(locale, currencyCode).placement,
+  }
+
+  // Options left undefined or null keep the derived value
+  const set = Object.entries(overrides).filter(([, value]) => value !== undefined && value !== null)
+  return { ...derived, ...Object.fromEntries(set), locale }
+}
+
+/**
+ * Merge a configuration with the defaults, deriving every option it leaves unset from its locale
+ * Formatting, parsing and the input element all work from this one resolved configuration
+ * A locale tag Intl rejects is dropped, leaving the separators and symbols the configuration sets
+ */
+export function resolveConfig(config: NumbersConfig = {}): NumbersConfig {
+  const merged: NumbersConfig = { ...defaultConfig, ...config }
+  if (!merged.locale) {
+    return merged
+  }
+
+  try {
+    return { ...defaultConfig, ...configFromLocale(merged.locale, config) }
+  }
+  catch (error) {
+    if (!(error instanceof RangeError)) {
+      throw error
+    }
+    return { ...merged, locale: undefined }
+  }
+}
+
+/**
+ * Check whether a currency symbol is the code of a registered or ISO 4217 currency such as USD
+ */
+export function isCurrencyCode(symbol: string): boolean {
+  return /^[A-Z]{3}$/.test(symbol) && getCurrency(symbol) !== null
+}
@@ -0,0 +1,207 @@
+import type { DecimalValue, NumbersConfig, RoundingMethod } from './types'
+import { getCurrency } from './currencies'
+import { decimalToNumber, decimalToString, roundDecimal, shiftDecimal, toDecimal } from './decimal'
+import { formatNumber } from './format'
+import { isCurrencyCode } from './locale'
+import { parseNumberStrict } from './strict-parse'
+
+/**
+ * Operation on two amounts of different currencies, such as adding euros to dollars
+ */
+export class CurrencyMismatchError extends Error {
+  readonly currencies: [string, string]
+
+  constructor(operation: string, currency: string, otherCurrency: string) {
+    super(`Cannot ${operation} ${currency} and ${otherCurrency} amounts`)
+    this.name = 'CurrencyMismatchError'
+    this.currencies = [currency, otherCurrency]
+  }
+}
+
+/**
+ * Amount of money held as a whole number of minor units (cents) of a registered or ISO 4217 currency
+ * Arithmetic is exact; multiplying rounds to the minor unit with a rounding method
+ */
+export class Money {
+  readonly minorAmount: bigint
+  readonly currency: string
+
+  /**
+   * Create an amount from its minor units: new Money(123450n, 'USD') is $1,234.50
+   */
+  constructor(minorAmount: bigint | number, currency: string) {
+    const data = getCurrency(currency)
+    if (!data) {
+      throw new Error(`Unknown currency: ${currency}`)
+    }
+    if (typeof minorAmount === 'number' && !Number.isSafeInteger(minorAmount)) {
+      throw new Error(`Minor amounts are whole numbers: ${minorAmount}`)
+    }
+
+    this.minorAmount = BigInt(minorAmount)
+    this.currency = data.code
+  }
+
+  /**
+   * Create an amount from its major units, rounding to the minor unit: Money.of('1234.505', 'USD') is $1,234.51
+   */
+  static of(amount: number | string | bigint, currency: string, roundingMethod: RoundingMethod = 'S'): Money {
+    const decimal = toDecimal(amount)
+    if (!decimal) {
+      throw new Error(`Not an amount of money: ${String(amount)}`)
+    }
+
+    return new Money(toMinorAmount(decimal, minorUnitsOf(currency), roundingMethod), currency)
+  }
+
+  /**
+   * Read an amount written with a configuration, in the currency code of its activeCurrency or currencySymbol
+   * Throws for text parseNumberStrict cannot read, including more decimals than the minor unit without a decimalPlaces
+   */
+  static parse(text: string, config: NumbersConfig = {}): Money {
+    const currency = moneyCurrency(config)
+    if (!currency) {
+      throw new Error('Money.parse needs a currency code in activeCurrency or currencySymbol')
+    }
+
+    const result = parseNumberStrict({ value: text, config: { currencySymbol: currency, decimalPlaces: minorUnitsOf(currency), ...config } })
+    if (!result.ok) {
+      throw new Error(result.error.message)
+    }
+
+    return Money.of(result.exact, currency, config.roundingMethod)
+  }
+
+  /**
+   * Decimals of the minor unit of the currency: 2 for cents, 0 for yen
+   */
+  get minorUnits(): number {
+    return minorUnitsOf(this.currency)
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency('add', other)
+    return new Money(this.minorAmount + other.minorAmount, this.currency)
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency('subtract', other)
+    return new Money(this.minorAmount - other.minorAmount, this.currency)
+  }
+
+  /**
+   * Multiply by a factor such as a quantity or a tax rate, rounding to the minor unit
+   */
+  multiply(factor: number | string | bigint, roundingMethod: RoundingMethod = 'S'): Money {
+    const decimal = toDecimal(factor)
+    if (!decimal) {
+      throw new Error(`Cannot multiply money by ${String(factor)}`)
+    }
+
+    const product: DecimalValue = {
+      negative: decimal.negative !== this.minorAmount < 0n,
+      coefficient: decimal.coefficient * (this.minorAmount < 0n ? -this.minorAmount : this.minorAmount),
+      scale: decimal.scale,
+    }
+    return new Money(toMinorAmount(product, 0, roundingMethod), this.currency)
+  }
+
+  negate(): Money {
+    return new Money(-this.minorAmount, this.currency)
+  }
+
+  /**
+   * Compare with an amount of the same currency, returning -1, 0 or 1
+   */
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency('compare', other)
+    return this.minorAmount < other.minorAmount ? -1 : this.minorAmount > other.minorAmount ? 1 : 0
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorAmount === other.minorAmount
+  }
+
+  isZero(): boolean {
+    return this.minorAmount === 0n
+  }
+
+  isNegative(): boolean {
+    return this.minorAmount < 0n
+  }
+
+  /**
+   * Get the exact amount in major units
+   */
+  toDecimal(): DecimalValue {
+    return shiftDecimal(toDecimal(this.minorAmount)!, -this.minorUnits)
+  }
+
+  /**
+   * Get the amount as a plain decimal string with every minor digit: "1234.50"
+   */
+  toDecimalString(): string {
+    return decimalToString(roundDecimal(this.toDecimal(), this.minorUnits))
+  }
+
+  /**
+   * Get the amount as a number, which may lose digits beyond 2^53 minor units
+   */
+  toNumber(): number {
+    return decimalToNumber(this.toDecimal())
+  }
+
+  /**
+   * Format with the minor units and symbol of the currency; options in config take precedence
+   */
+  format(config: NumbersConfig = {}): string {
+    return formatNumber({
+      value: this.toDecimalString(),
+      config: { currencySymbol: this.currency, currencyDisplay: 'symbol', decimalPlaces: this.minorUnits, ...config },
+    })
+  }
+
+  toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`
+  }
+
+  toJSON(): { amount: string, currency: string } {
+    return { amount: this.toDecimalString(), currency: this.currency }
+  }
+
+  private assertSameCurrency(operation: string, other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new CurrencyMismatchError(operation, this.currency, other.currency)
+    }
+  }
+}
+
+/**
+ * Find the currency code amounts of a configuration are in: its activeCurrency, or a code as its currencySymbol
+ */
+export function moneyCurrency(config: NumbersConfig): string | null {
+  return [config.activeCurrency, config.currencySymbol].map(code => code?.trim() ?? '').find(isCurrencyCode) ?? null
+}
+
+/**
+ * Read the minor units of a currency, throwing for unknown codes
+ */
+function minorUnitsOf(currency: string): number {
+  const data = getCurrency(currency)
+  if (!data) {
+    throw new Error(`Unknown currency: ${currency}`)
+  }
+
+  return data.minorUnits
+}
+
+// Minor units are whole, so the .05 methods round them in their plain direction
+const WHOLE_UNIT_METHODS: Partial<Record<RoundingMethod, RoundingMethod>> = { N05: 'S', U05: 'U', D05: 'D' }
+
+/**
+ * Round a major amount to whole minor units
+ */
+function toMinorAmount(amount: DecimalValue, minorUnits: number, roundingMethod: RoundingMethod): bigint {
+  const rounded = roundDecimal(shiftDecimal(amount, minorUnits), 0, WHOLE_UNIT_METHODS[roundingMethod] ?? roundingMethod)
+  return rounded.negative ? -rounded.coefficient : rounded.coefficient
+}
@@ -0,0 +1,87 @@
+/**
+ * SI prefixes keyed by their power of ten
+ */
+export const siPrefixes: Record<number, string> = {
+  30: 'Q',
+  27: 'R',
+  24: 'Y',
+  21: 'Z',
+  18: 'E',
+  15: 'P',
+  12: 'T',
+  9: 'G',
+  6: 'M',
+  3: 'k',
+  0: '',
+  [-3]: 'm',
+  [-6]: 'µ',
+  [-9]: 'n',
+  [-12]: 'p',
+  [-15]: 'f',
+  [-18]: 'a',
+  [-21]: 'z',
+  [-24]: 'y',
+  [-27]: 'r',
+  [-30]: 'q',
+}
+
+// Alternative spellings of the micro prefix accepted when parsing
+const SI_PREFIX_ALIASES: Record<string, number> = {
+  u: -6,
+  μ: -6, // Greek small letter mu, as opposed to the micro sign
+}
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹'
+
+/**
+ * Render an exponent as "e+6" or as a superscript power of ten "×10⁶"
+ */
+export function formatExponent(exponent: number, display: 'e' | 'superscript' = 'e'): string {
+  if (display === 'superscript') {
+    const digits = Math.abs(exponent).toString().replace(/\d/g, digit => SUPERSCRIPT_DIGITS[Number(digit)])
+    return `×10${exponent < 0 ? '⁻' : ''}${digits}`
+  }
+
+  return `e${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`
+}
+
+/**
+ * Rewrite power-of-ten forms ("×10⁶", "x 10^-3", "·10⁻³") as "e" exponents
+ */
+export function normalizeExponentNotation(value: string): string {
+  return value
+    .replace(/\s*[×x·]\s*10([⁺⁻]?[⁰¹²³⁴⁵⁶⁷⁸⁹]+)/g, (_, exponent: string) => {
+      const digits = exponent.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]/g, digit => SUPERSCRIPT_DIGITS.indexOf(digit).toString())
+      return `e${digits.replace('⁻', '-').replace('⁺', '+')}`
+    })
+    .replace(/\s*[×x·]\s*10\^([+-]?\d+)/g, 'e$1')
+}
+
+/**
+ * Split an SI prefix (and an optional unit) off the end of a value such as "1.5 kHz"
+ */
+export function matchSIPrefix(value: string, unit: string = ''): { number: string, exponent: number } | null {
+  let trimmed = value.trim()
+  if (unit && trimmed.endsWith(unit)) {
+    trimmed = trimmed.slice(0, -unit.length).trimEnd()
+  }
+
+  // The prefix must follow the number directly or after a space
+  const match = trimmed.match(/^(.*[\d.,])\s?(\D)$/)
+  if (!match) {
+    return null
+  }
+
+  const [, number, prefix] = match
+  const exponent = siPrefixExponent(prefix)
+
+  return exponent === undefined ? null : { number, exponent }
+}
+
+/**
+ * Look up the power of ten of an SI prefix symbol, accepting the alternative micro spellings
+ */
+export function siPrefixExponent(prefix: string): number | undefined {
+  const entry = prefix ? Object.entries(siPrefixes).find(([, symbol]) => symbol === prefix) : undefined
+  return entry ? Number(entry[0]) : SI_PREFIX_ALIASES[prefix]
+}
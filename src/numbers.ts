@@ -1,6 +1,12 @@
-import type { NumbersConfig, NumbersInstance } from './types'
-import { defaultConfig } from './config'
-import { formatNumber, parseNumber } from './format'
+import type { ConversionFailedDetail, ExchangeRate, NumbersChangeDetail, NumbersConfig, NumbersInstance } from './types'
+import { getCurrency, getLocaleCurrencyData } from './currencies'
+import { decimalToNumber, decimalToString, shiftDecimal, toDecimal } from './decimal'
+import { convert } from './exchange-rates'
+import { formatNumber, parseNumber, parseNumberExact, regroupInput } from './format'
+import { resolveConfig } from './locale'
+import { Money, moneyCurrency } from './money'
+import { compilePattern } from './pattern-compiler'
+import { expandPatternConfig } from './pattern-config'
 
 // To track all Numbers instances for global operations
 const numbersList: Numbers[] = []
@@ -11,10 +17,12 @@ const numbersList: Numbers[] = []
 export class Numbers implements NumbersInstance {
   private readonly element: HTMLElement
   private config: NumbersConfig
+  private userConfig: NumbersConfig // Options as passed in, before defaults and locale values
   private originalValue: string
   private initialized: boolean = false
   private historyTable: string[] = []
   private historyIndex: number = -1
+  private pendingMoney: { amount: Money, rate?: ExchangeRate } | null = null // Amount to show once a currency switch is applied
 
   /**
    * Create a new Numbers instance on the provided element
@@ -35,8 +43,9 @@ export class Numbers implements NumbersInstance {
     // Store the original value
     this.originalValue = this.getElementValue() || '0'
 
-    // Merge configs
-    this.config = { ...defaultConfig, ...config }
+    // Merge configs, deriving what the configuration leaves unset from its locale
+    this.userConfig = config
+    this.config = resolveConfig(expandPatternConfig(config))
 
     // Add to list if configured
     if (this.config.createLocalList) {
@@ -189,6 +198,13 @@ export class Numbers implements NumbersInstance {
     return this.element.tagName.toLowerCase() === 'input'
   }
 
+  /**
+   * Check if the display may hide digits behind an exponent or SI prefix
+   */
+  private usesExponentNotation(): boolean {
+    return Boolean(this.config.useScientificNotation || this.config.engineeringNotation || this.config.siUnitPrefixes)
+  }
+
   /**
    * Get the value from the element
    */
@@ -217,7 +233,7 @@ export class Numbers implements NumbersInstance {
     }
 
     // Apply style rules if configured
-    const numValue = parseNumber({ value, config: this.config })
+    const numValue = this.parseValue(value)
     this.applyStyleRules(numValue)
 
     // Save in history
@@ -281,6 +297,22 @@ export class Numbers implements NumbersInstance {
       }
     }
 
+    // Apply the class for the colour of the pattern section the value falls in
+    if (styleRules.pattern) {
+      const compiled = compilePattern(styleRules.pattern)
+      const colorClass = (color: string): string => styleRules.colorClasses?.[color] ?? `numbers-${color}`
+      compiled.sections.forEach((section) => {
+        if (section.color) {
+          this.element.classList.remove(colorClass(section.color))
+        }
+      })
+
+      const color = compiled.sections[compiled.formatWithColor(rawValue).section]?.color
+      if (color) {
+        this.element.classList.add(colorClass(color))
+      }
+    }
+
     // Apply user-defined callbacks
     if (styleRules.userDefined) {
       styleRules.userDefined.forEach((userDef) => {
@@ -398,11 +430,15 @@ export class Numbers implements NumbersInstance {
 
       switch (this.config.caretPositionOnFocus) {
         case 'start':
-          inputElement.setSelectionRange(0, 0)
-          break
-        case 'end':
-          inputElement.setSelectionRange(value.length, value.length)
+        case 'end': {
+          // With a pattern the caret goes to the number, inside the literals around it
+          const { start, end } = this.config.formatPattern
+            ? compilePattern(this.config.formatPattern).mask(value, value.length, this.config)
+            : { start: 0, end: value.length }
+          const position = this.config.caretPositionOnFocus === 'start' ? start : end
+          inputElement.setSelectionRange(position, position)
           break
+        }
         case 'decimalChar': {
           const decimalChar = this.config.decimalCharacter || '.'
           const decimalPos = value.indexOf(decimalChar)
@@ -426,7 +462,14 @@ export class Numbers implements NumbersInstance {
   private handleBlur(_e: FocusEvent): void {
     // Reformat on blur with possible different options
     const value = this.getElementValue()
-    const numValue = parseNumber({ value, config: this.config })
+    const numValue = this.parseValue(value)
+
+    // A pattern writes the whole value, negative section included
+    if (this.config.formatPattern) {
+      this.setElementValue(value && compilePattern(this.config.formatPattern).format(numValue, this.config))
+      this.dispatchEvent('blur')
+      return
+    }
 
     // Handle scaling if configured
     if (this.config.divisorWhenUnfocused) {
@@ -547,7 +590,8 @@ export class Numbers implements NumbersInstance {
 
     // Check for negative/positive key
     if ((e.key === '-' || e.key === '+') && this.isInput()) {
-      if (this.config.negativePositiveSignBehavior === true) {
+      // With a pattern the typed sign is left to the input mask, which switches sections
+      if (this.config.negativePositiveSignBehavior === true && !this.config.formatPattern) {
         // Toggle between positive and negative
         const currentValue = this.getNumber()
         this.set(currentValue * -1)
@@ -701,42 +745,28 @@ export class Numbers implements NumbersInstance {
       return
     }
 
-    // Get current value and update it
-    const value = this.getElementValue()
-
-    try {
-      // Only process if the value has actually changed to avoid cursor jump
-      if (value !== this.getElementValue()) {
-        const numValue = parseNumber({ value, config: this.config })
-
-        // Format the value, keeping cursor position
-        const formattedValue = formatNumber({
-          value: numValue,
-          config: this.config,
-        })
-
-        // If it's an input, manually save and restore cursor position
-        if (this.isInput()) {
-          const inputElement = this.element as HTMLInputElement
-          const currentPosition = inputElement.selectionStart || 0
+    // Regroup the integer digits as they are typed, keeping the caret after the same digit
+    if (!this.isInput() || this.config.isSpecializedType) {
+      return
+    }
 
-          this.setElementValue(formattedValue)
+    const inputElement = this.element as HTMLInputElement
+    const value = inputElement.value
+    const caret = inputElement.selectionStart ?? value.length
+    const regrouped = this.config.formatPattern
+      ? compilePattern(this.config.formatPattern).mask(value, caret, this.config)
+      : regroupInput(value, caret, this.config)
+    if (regrouped.value !== value || regrouped.caret !== caret) {
+      if (regrouped.value !== value) {
+        this.setElementValue(regrouped.value)
+      }
 
-          // Restore cursor position
-          try {
-            inputElement.setSelectionRange(currentPosition, currentPosition)
-          }
-          catch {
-            // Ignore selection range errors
-          }
-        }
-        else {
-          this.setElementValue(formattedValue)
-        }
+      try {
+        inputElement.setSelectionRange(regrouped.caret, regrouped.caret)
+      }
+      catch {
+        // Ignore selection range errors
       }
-    }
-    catch {
-      // If there's an error (e.g. invalid format), leave as-is
     }
   }
 
@@ -907,9 +937,23 @@ export class Numbers implements NumbersInstance {
   }
 
   /**
-   * Set a value
+   * Set a value, or an amount of money in its currency
    */
-  set(value: number | string): NumbersInstance {
+  set(value: number | string | Money): NumbersInstance {
+    // Money switches to its currency as it is, without converting, and is shown in the currency's minor units
+    if (value instanceof Money) {
+      if (moneyCurrency(this.config) !== value.currency) {
+        this.pendingMoney = { amount: value }
+        try {
+          return this.applyCurrency(value.currency)
+        }
+        finally {
+          this.pendingMoney = null
+        }
+      }
+      value = value.toDecimalString()
+    }
+
     // Validate input
     if (value === null || value === undefined) {
       switch (this.config.emptyInputBehavior) {
@@ -952,7 +996,7 @@ export class Numbers implements NumbersInstance {
         const minValue = Number.parseFloat(this.config.minimumValue.toString())
         if (numValue < minValue) {
           if (this.config.overrideMinMaxLimits === 'ceiling' || this.config.overrideMinMaxLimits === 'floor') {
-            numValue = minValue
+            numValue = value = minValue
           }
           else {
             return this // Reject the value
@@ -964,7 +1008,7 @@ export class Numbers implements NumbersInstance {
         const maxValue = Number.parseFloat(this.config.maximumValue.toString())
         if (numValue > maxValue) {
           if (this.config.overrideMinMaxLimits === 'ceiling' || this.config.overrideMinMaxLimits === 'floor') {
-            numValue = maxValue
+            numValue = value = maxValue
           }
           else {
             return this // Reject the value
@@ -975,9 +1019,12 @@ export class Numbers implements NumbersInstance {
       // Apply active currency configuration if any
       const currencyConfig = this.getActiveCurrencyConfig()
 
-      // Store original raw value for scientific notation
-      if (this.config.useScientificNotation) {
-        this.element.setAttribute('data-numbers-value', numValue.toString())
+      // Decimal strings are formatted as they are, so digits beyond a number's precision are kept
+      const exactValue = typeof value === 'string' && toDecimal(value) ? decimalToString(toDecimal(value)!) : numValue
+
+      // Store original raw value for scientific, engineering and SI-prefix notation
+      if (this.usesExponentNotation()) {
+        this.element.setAttribute('data-numbers-value', exactValue.toString())
       }
 
       // Check for valuesToStrings mapping for the output display
@@ -993,18 +1040,24 @@ export class Numbers implements NumbersInstance {
 
       // Format using combined configuration
       // Ensure scientific notation is applied properly when needed
-      const formattedValue = formatNumber({
-        value: numValue,
-        config: {
-          ...currencyConfig,
-          // Make sure these are explicitly set to ensure proper behavior
-          useScientificNotation: currencyConfig.useScientificNotation,
-          scientificNotationThreshold: currencyConfig.scientificNotationThreshold,
-        },
-      })
+      const formattedValue = currencyConfig.formatPattern
+        ? compilePattern(currencyConfig.formatPattern).format(exactValue, currencyConfig)
+        : formatNumber({
+            value: exactValue,
+            config: {
+              ...currencyConfig,
+              // Make sure these are explicitly set to ensure proper behavior
+              useScientificNotation: currencyConfig.useScientificNotation,
+              scientificNotationThreshold: currencyConfig.scientificNotationThreshold,
+            },
+          })
 
       this.setElementValue(formattedValue)
-      this.dispatchEvent('change', { value: numValue, formatted: formattedValue })
+      this.dispatchEvent('change', {
+        value: numValue,
+        formatted: formattedValue,
+        ...this.pendingMoney?.rate && { exchangeRate: this.pendingMoney.rate },
+      } satisfies NumbersChangeDetail)
 
       // Save to persistence if configured
       if (this.config.persistenceMethod && this.config.persistenceKey) {
@@ -1052,12 +1105,43 @@ export class Numbers implements NumbersInstance {
   }
 
   /**
-   * Set active currency
+   * Set active currency, converting the value first when convertOnCurrencyChange is on
    */
   setCurrency(currencyCode: string): NumbersInstance {
+    if (this.config.convertOnCurrencyChange) {
+      const from = moneyCurrency(this.config)
+      const to = getCurrency(currencyCode)?.code
+      // An empty value has nothing to convert, so only the currency changes
+      const money = from && to && from !== to ? this.getMoney() : null
+      if (from && to && money) {
+        try {
+          this.pendingMoney = convert(money, from, to, {
+            provider: this.config.exchangeRateProvider,
+            rounding: this.config.roundingMethod,
+          })
+        }
+        catch (error) {
+          console.warn(`Currency stays ${from}: ${(error as Error).message}`)
+          this.dispatchEvent('conversionFailed', { from, to, error: error as Error } satisfies ConversionFailedDetail)
+          return this
+        }
+      }
+    }
+
+    try {
+      return this.applyCurrency(currencyCode)
+    }
+    finally {
+      this.pendingMoney = null
+    }
+  }
+
+  /**
+   * Switch to a currency from currencies, or from the currency registry
+   */
+  private applyCurrency(currencyCode: string): NumbersInstance {
     if (!this.config.currencies || !this.config.currencies[currencyCode]) {
-      console.warn(`Currency '${currencyCode}' is not defined in the configuration`)
-      return this
+      return this.setRegisteredCurrency(currencyCode)
     }
 
     // Get the currency configuration
@@ -1087,6 +1171,26 @@ export class Numbers implements NumbersInstance {
     return this
   }
 
+  /**
+   * Switch to a currency from the currency registry: its code when a locale writes it, otherwise its symbol
+   */
+  private setRegisteredCurrency(currencyCode: string): NumbersInstance {
+    const { locale } = this.config
+    const currency = locale ? getLocaleCurrencyData(currencyCode, locale) : getLocaleCurrencyData(currencyCode, 'en')
+    if (!currency) {
+      console.warn(`Currency '${currencyCode}' is not defined in the configuration or the currency registry`)
+      return this
+    }
+
+    const symbol = currency.placement === 'p' ? `${currency.symbol}${currency.spacing}` : `${currency.spacing}${currency.symbol}`
+    return this.update({
+      activeCurrency: currency.code,
+      currencySymbol: locale ? currency.code : symbol,
+      currencySymbolPlacement: currency.placement,
+      decimalPlaces: currency.minorUnits,
+    })
+  }
+
   /**
    * Get available currencies
    */
@@ -1113,19 +1217,53 @@ export class Numbers implements NumbersInstance {
     return this.getElementValue()
   }
 
+  /**
+   * Parse displayed text into a number
+   * Percent signs and scaling commas of a pattern scale the value they write, so the text is scaled back
+   */
+  private parseValue(value: string): number {
+    const parsed = parseNumber({ value, config: this.config })
+    const scale = this.getPatternScale()
+
+    return scale && parsed ? decimalToNumber(shiftDecimal(toDecimal(parsed)!, -scale)) : parsed
+  }
+
+  /**
+   * Read the current value as an exact decimal string, null when the element is empty
+   */
+  private getExactValue(): string | null {
+    const storedValue = this.usesExponentNotation() ? toDecimal(this.element.getAttribute('data-numbers-value') ?? '') : null
+    if (storedValue) {
+      return decimalToString(storedValue)
+    }
+
+    const text = this.getElementValue()
+    if (!text.trim()) {
+      return null
+    }
+
+    const exact = parseNumberExact({ value: text, config: this.config })
+    const scale = this.getPatternScale()
+    return scale ? decimalToString(shiftDecimal(toDecimal(exact)!, -scale)) : exact
+  }
+
+  /**
+   * Read the power of ten a pattern's percent signs and scaling commas multiply values by
+   */
+  private getPatternScale(): number {
+    return this.config.formatPattern ? compilePattern(this.config.formatPattern).sections[0].number?.scale ?? 0 : 0
+  }
+
   /**
    * Get the current value as a number
    */
   getNumber(): number {
     // Get the raw numeric value from the element's displayed text
-    const displayedValue = parseNumber({
-      value: this.getElementValue(),
-      config: this.config,
-    })
+    const displayedValue = this.parseValue(this.getElementValue())
 
     // If using scientific notation, we need to preserve the original set value
     // rather than the rounded display value
-    if (this.config.useScientificNotation) {
+    if (this.usesExponentNotation()) {
       // Get the internal stored value if it exists
       const storedValue = this.element.getAttribute('data-numbers-value')
       if (storedValue) {
@@ -1139,25 +1277,35 @@ export class Numbers implements NumbersInstance {
     return displayedValue
   }
 
+  /**
+   * Get the current value as an amount of money in the active currency, null without a currency code or a value
+   */
+  getMoney(): Money | null {
+    const currency = moneyCurrency(this.config)
+    const value = currency ? this.getExactValue() : null
+    return currency && value ? Money.of(value, currency, this.config.roundingMethod) : null
+  }
+
   /**
    * Update configuration
    */
   update(config: Partial<NumbersConfig>): NumbersInstance {
-    // Get current value before changing configuration
-    const currentValue = this.getNumber()
+    // Get current value before changing configuration, or the amount a currency switch brings
+    const currentValue: number | string = this.pendingMoney ? this.pendingMoney.amount.toDecimalString() : this.getNumber()
 
     // If the original value is stored as a data attribute, use that for maximum precision
     let preciseValue = currentValue
     const storedValue = this.element.getAttribute('data-numbers-value')
-    if (storedValue) {
+    if (storedValue && !this.pendingMoney) {
       const parsedValue = Number.parseFloat(storedValue)
       if (!Number.isNaN(parsedValue)) {
         preciseValue = parsedValue
       }
     }
 
-    // Merge configs
-    this.config = { ...this.config, ...config }
+    // Merge configs, deriving them again in case the locale changed
+    this.userConfig = { ...this.userConfig, ...config }
+    this.config = resolveConfig(expandPatternConfig(this.userConfig))
 
     // Reformat current value with new configuration
     this.set(preciseValue)
@@ -1270,7 +1418,7 @@ export class Numbers implements NumbersInstance {
    */
   static setCurrencyAll(currencyCode: string): void {
     numbersList.forEach((instance) => {
-      if (instance.config.currencies && instance.config.currencies[currencyCode]) {
+      if (instance.config.currencies?.[currencyCode] || getCurrency(currencyCode)) {
         instance.setCurrency(currencyCode)
       }
     })
@@ -0,0 +1,106 @@
+import type { NumberFormatPart, NumberFormatPartType, NumbersConfig } from './types'
+
+// Brackets and percent signs stay literals even when they trail the number
+const LITERAL_PATTERN = /[()[\]{}%]/
+
+/**
+ * Append a part, merging it into the previous part when both have the same type
+ */
+export function pushPart(parts: NumberFormatPart[], type: NumberFormatPartType, value: string): NumberFormatPart[] {
+  if (!value) {
+    return parts
+  }
+
+  const last = parts[parts.length - 1]
+  // Digit runs stay separate from their neighbours only when a separator sits between them
+  if (last && last.type === type && type !== 'group' && type !== 'decimal') {
+    last.value += value
+  }
+  else {
+    parts.push({ type, value })
+  }
+
+  return parts
+}
+
+/**
+ * Join parts back into the formatted string
+ */
+export function partsToString(parts: NumberFormatPart[]): string {
+  return parts.map(part => part.value).join('')
+}
+
+/**
+ * Split an already formatted string into parts using the symbols of its configuration
+ * Non-numeric output (phone numbers, IP addresses, times) only has integer and literal parts
+ */
+export function segmentFormatted(text: string, config: NumbersConfig, numeric: boolean = true): NumberFormatPart[] {
+  const {
+    currencySymbol = '',
+    suffixText = '',
+    decimalCharacter = '.',
+    digitGroupSeparator = '',
+    negativeSignCharacter = '-',
+    positiveSignCharacter = '+',
+  } = config
+
+  const parts: NumberFormatPart[] = []
+  const isDigit = (index: number): boolean => /\d/.test(text.charAt(index))
+  const lastDigit = text.search(/\d\D*$/)
+  let seenDigit = false
+  let seenDecimal = false
+  let index = 0
+
+  while (index < text.length) {
+    const rest = text.slice(index)
+    const char = text.charAt(index)
+
+    // Consume a symbol as a part of the given type when the text continues with it
+    const take = (type: NumberFormatPartType, symbol: string): boolean => {
+      if (!symbol || !rest.startsWith(symbol)) {
+        return false
+      }
+      pushPart(parts, type, symbol)
+      index += symbol.length
+      return true
+    }
+
+    if (isDigit(index)) {
+      pushPart(parts, numeric && seenDecimal ? 'fraction' : 'integer', char)
+      seenDigit = true
+      index++
+      continue
+    }
+
+    if (!numeric) {
+      pushPart(parts, 'literal', char)
+      index++
+      continue
+    }
+
+    if (take('currency', currencySymbol) || take('suffix', suffixText)) {
+      continue
+    }
+
+    if (!seenDigit && (take('sign', negativeSignCharacter) || take('sign', positiveSignCharacter))) {
+      continue
+    }
+
+    if (seenDigit && !seenDecimal && isDigit(index - 1)) {
+      if (isDigit(index + decimalCharacter.length) && take('decimal', decimalCharacter)) {
+        seenDecimal = true
+        continue
+      }
+      if (isDigit(index + digitGroupSeparator.length) && take('group', digitGroupSeparator)) {
+        continue
+      }
+    }
+
+    // Text after the last digit is a unit ("25°C"), everything else is a literal
+    const type = seenDigit && index > lastDigit && !LITERAL_PATTERN.test(char) ? 'suffix' : 'literal'
+    pushPart(parts, type, char)
+    index++
+  }
+
+  return parts
+}
@@ -0,0 +1,964 @@
+import type { CompiledPattern, DecimalValue, NumberFormatPart, NumberPattern, NumbersConfig, PatternCondition, PatternFormatResult, PatternMaskResult, PatternSection, PatternToken } from './types'
+import type { FormatSymbols } from './format'
+import { absDecimal, compareDecimal, decimalMagnitude, isZeroDecimal, roundDecimal, shiftDecimal, splitDecimal, toDecimal } from './decimal'
+import { isDecimalDigit, toAsciiDigits } from './digits'
+import { groupIntegerParts, resolveFormatSymbols, resolvePrecision } from './format'
+import { splitFraction } from './fractions'
+import { resolveConfig } from './locale'
+import { partsToString, pushPart } from './parts'
+
+type DigitRole = 'integer' | 'fraction' | 'exponent' | 'numerator' | 'denominator'
+type DigitToken = Extract<PatternToken, { type: 'digit' }>
+
+interface RenderContext {
+  config: NumbersConfig
+  symbols: FormatSymbols
+  toNative: (digits: string) => string
+}
+
+/**
+ * Section input is masked with, and the literals it writes before and after the number
+ */
+interface MaskState {
+  section: PatternSection
+  signed: boolean // A negative value written by the positive section, with a minus sign
+  prefix: string
+  suffix: string
+}
+
+// Bracket codes spreadsheets write for a currency and its locale: [$€-407], [$USD], [$-409]
+const BRACKET_CURRENCY_PATTERN = /^\$([^-]*)(?:-[\dA-F]+)?$/i
+const CURRENCY_SIGN_PATTERN = /^\p{Sc}$/u
+const CONDITION_PATTERN = /^(<=|>=|<>|<|>|=)\s*([+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?)$/i
+const COLOR_PATTERN = /^(?:black|blue|cyan|green|magenta|red|white|yellow|color(\d{1,2}))$/i
+
+// The colours spreadsheets name, then the 56 colours of the default palette [Color1] to [Color56]
+const NAMED_COLORS = ['black', 'blue', 'cyan', 'green', 'magenta', 'red', 'white', 'yellow']
+const PALETTE = [
+  '#000000', '#FFFFFF', '#FF0000', '#00FF00', '#0000FF', '#FFFF00', '#FF00FF', '#00FFFF',
+  '#800000', '#008000', '#000080', '#808000', '#800080', '#008080', '#C0C0C0', '#808080',
+  '#9999FF', '#993366', '#FFFFCC', '#CCFFFF', '#660066', '#FF8080', '#0066CC', '#CCCCFF',
+  '#000080', '#FF00FF', '#FFFF00', '#00FFFF', '#800080', '#800000', '#008080', '#0000FF',
+  '#00CCFF', '#CCFFFF', '#CCFFCC', '#FFFF99', '#99CCFF', '#FF99CC', '#CC99FF', '#FFCC99',
+  '#3366FF', '#33CCCC', '#99CC00', '#FFCC00', '#FF9900', '#FF6600', '#666699', '#969696',
+  '#003366', '#339966', '#003300', '#333300', '#993300', '#993366', '#333399', '#333333',
+]
+
+// Patterns repeat far more often than they change, so compiled ones are kept up to this many
+const CACHE_LIMIT = 500
+const compiledPatterns = new Map<string, CompiledPattern>()
+
+/**
+ * Syntax error in a format pattern, with the offset of the offending character
+ */
+export class PatternSyntaxError extends Error {
+  readonly pattern: string
+  readonly position: number
+
+  constructor(message: string, pattern: string, position: number) {
+    super(`${message} at position ${position} in pattern ${pattern}`)
+    this.name = 'PatternSyntaxError'
+    this.pattern = pattern
+    this.position = position
+  }
+}
+
+/**
+ * Compile an Excel or LDML format pattern, or reuse the one compiled before
+ * Throws a PatternSyntaxError for patterns that cannot be read
+ */
+export function compilePattern(pattern: string): CompiledPattern {
+  const cached = compiledPatterns.get(pattern)
+  if (cached) {
+    return cached
+  }
+
+  const sections = tokenizeSections(pattern).map(section => ({
+    ...section,
+    number: compileNumber(section.tokens, pattern),
+  }))
+  const formatWithColor = (value: number | string | bigint, config: NumbersConfig = {}, width?: number): PatternFormatResult =>
+    formatSections(sections, value, config, width)
+  const compiled: CompiledPattern = {
+    pattern,
+    sections,
+    format: (value, config, width) => formatWithColor(value, config, width).value,
+    formatToParts: (value, config, width) => formatWithColor(value, config, width).parts,
+    formatWithColor,
+    mask: (input, caret = input.length, config = {}) => maskSections(sections, input, caret, config),
+  }
+
+  if (compiledPatterns.size >= CACHE_LIMIT) {
+    compiledPatterns.delete(compiledPatterns.keys().next().value!)
+  }
+  compiledPatterns.set(pattern, compiled)
+
+  return compiled
+}
+
+/**
+ * Split a pattern into its sections and read each one into tokens
+ */
+function tokenizeSections(pattern: string): Omit<PatternSection, 'number'>[] {
+  const fail = (message: string, position: number): never => {
+    throw new PatternSyntaxError(message, pattern, position)
+  }
+
+  const sections: Omit<PatternSection, 'number'>[] = []
+  let tokens: PatternToken[] = []
+  let condition: PatternCondition | null = null
+  let color: string | null = null
+  let role: DigitRole = 'integer'
+  let start = 0
+  let index = 0
+  let textPlaceholder = -1 // Reported after the section count, so a fifth section is the error a pattern gets
+
+  const push = (token: PatternToken): void => {
+    const last = tokens[tokens.length - 1]
+    if (token.type === 'literal' && last?.type === 'literal') {
+      last.value += token.value
+    }
+    else {
+      tokens.push(token)
+    }
+  }
+
+  while (index < pattern.length) {
+    const position = index
+    const char = String.fromCodePoint(pattern.codePointAt(index)!)
+    const next = pattern.charAt(index + char.length)
+    const isText = sections.length === 3
+    index += char.length
+
+    // Sections: positive;negative;zero;text
+    if (char === ';') {
+      if (sections.length === 3) {
+        fail('A pattern has at most four sections', position)
+      }
+      sections.push({ source: pattern.slice(start, position), position: start, tokens, condition, color })
+      tokens = []
+      condition = null
+      color = null
+      role = 'integer'
+      start = index
+      continue
+    }
+
+    // Literal text: "quoted", 'quoted' or \escaped, and an unpaired apostrophe as itself
+    if (char === '"') {
+      const end = pattern.indexOf('"', index)
+      if (end < 0) {
+        fail('Unterminated quoted text', position)
+      }
+      push({ type: 'literal', value: pattern.slice(index, end), position })
+      index = end + 1
+      continue
+    }
+    if (char === '\'') {
+      const end = pattern.indexOf('\'', index)
+      push({ type: 'literal', value: end < 0 || end === index ? '\'' : pattern.slice(index, end), position })
+      index = end < 0 ? index : end + 1
+      continue
+    }
+    if (char === '\\' || char === '*' || char === '_') {
+      if (!next) {
+        fail(`Missing character after ${char}`, position)
+      }
+      const value = String.fromCodePoint(pattern.codePointAt(index)!)
+      index += value.length
+      if (char === '*' && tokens.some(token => token.type === 'fill')) {
+        fail('Only one fill character is allowed per section', position)
+      }
+      push(char === '\\' ? { type: 'literal', value, position } : { type: char === '*' ? 'fill' : 'space', char: value, position })
+      continue
+    }
+
+    // Bracket codes: currencies, conditions such as [>=1000] and colours such as [Red]
+    if (char === '[') {
+      const end = pattern.indexOf(']', index)
+      if (end < 0) {
+        fail('Unclosed bracket', position)
+      }
+      const code = pattern.slice(index, end)
+      const currency = code.match(BRACKET_CURRENCY_PATTERN)
+      const conditionMatch = code.match(CONDITION_PATTERN)
+      const colorMatch = code.match(COLOR_PATTERN)
+      index = end + 1
+
+      if (currency) {
+        if (currency[1]) {
+          push({ type: 'currency', symbol: currency[1], position })
+        }
+      }
+      else if (conditionMatch) {
+        if (sections.length > 1) {
+          fail('Only the first two sections can have a condition', position)
+        }
+        if (condition) {
+          fail('Second condition in a section', position)
+        }
+        condition = { operator: conditionMatch[1] as PatternCondition['operator'], value: Number(conditionMatch[2]) }
+      }
+      else if (colorMatch) {
+        if (color) {
+          fail('Second colour in a section', position)
+        }
+        if (colorMatch[1] && (Number(colorMatch[1]) < 1 || Number(colorMatch[1]) > 56)) {
+          fail(`Unknown colour [${code}]`, position)
+        }
+        color = code.toLowerCase()
+      }
+      else {
+        fail(`Unsupported code [${code}]`, position)
+      }
+      continue
+    }
+
+    if (isText) {
+      if (char === '0' || char === '#' || char === '?') {
+        textPlaceholder = textPlaceholder < 0 ? position : textPlaceholder
+        continue
+      }
+      push(char === '@' ? { type: 'text', position } : { type: 'literal', value: char, position })
+      continue
+    }
+
+    if (char === '0' || char === '#' || char === '?' || char === '@') {
+      if (char === '@' && role !== 'integer') {
+        fail('Significant digit placeholders cannot follow a decimal point, exponent or fraction bar', position)
+      }
+      if (role === 'denominator' && tokens.some(token => token.type === 'slash' && token.denominator !== null)) {
+        fail('Digit placeholders after a fixed denominator', position)
+      }
+      push({ type: 'digit', placeholder: char, role, position })
+      continue
+    }
+
+    if (char === '.') {
+      if (role !== 'integer') {
+        fail(role === 'fraction' ? 'Second decimal point' : role === 'exponent' ? 'Decimal point in the exponent' : 'Decimal point in a fraction', position)
+      }
+      role = 'fraction'
+      push({ type: 'decimal', position })
+      continue
+    }
+
+    // E+00 and E-00 in Excel, E0 in LDML; any other E is a letter
+    if ((char === 'E' || char === 'e') && /^[+-]?[0#?]/.test(pattern.slice(index, index + 2))) {
+      if (role === 'exponent') {
+        fail('Second exponent', position)
+      }
+      if (role === 'denominator') {
+        fail('Exponent in a fraction', position)
+      }
+      if (!tokens.some(token => token.type === 'digit')) {
+        fail('Exponent without digit placeholders before it', position)
+      }
+      role = 'exponent'
+      push({ type: 'exponent', upper: char === 'E', showPlus: next === '+', position })
+      index += next === '+' || next === '-' ? 1 : 0
+      continue
+    }
+    if ((char === 'E' || char === 'e') && (next === '+' || next === '-')) {
+      fail('Exponent without digits', position)
+    }
+
+    // Fraction bar: the digits right before it are the numerator, placeholders or a number after it the denominator
+    if (char === '/' && /^[0#?1-9]/.test(next) && tokens[tokens.length - 1]?.type === 'digit') {
+      if (role !== 'integer') {
+        fail(role === 'denominator' ? 'Second fraction bar' : 'Fraction bar after a decimal point or exponent', position)
+      }
+      const numerator = tokens.slice(tokens.findLastIndex(token => token.type !== 'digit') + 1) as DigitToken[]
+      if (numerator.some(token => token.placeholder === '@')) {
+        fail('Significant digit placeholders cannot be combined with a fraction', position)
+      }
+      numerator.forEach((token) => {
+        token.role = 'numerator'
+      })
+      const fixed = pattern.slice(index).match(/^[1-9]\d*/)?.[0]
+      index += fixed?.length ?? 0
+      role = 'denominator'
+      push({ type: 'slash', denominator: fixed ? Number(fixed) : null, position })
+      continue
+    }
+
+    if (pattern.slice(position, position + 7).toLowerCase() === 'general') {
+      push({ type: 'general', position })
+      index = position + 7
+      continue
+    }
+
+    switch (char) {
+      case ',':
+        push({ type: 'group', position })
+        break
+      case '%':
+        push({ type: 'percent', position })
+        break
+      case '‰':
+        push({ type: 'permille', position })
+        break
+      case '+':
+        push({ type: 'plus', position })
+        break
+      case '-':
+        push({ type: 'minus', position })
+        break
+      case '$':
+      case '¤':
+        push({ type: 'currency', symbol: null, position })
+        while (char === '¤' && pattern.charAt(index) === '¤') {
+          index++
+        }
+        break
+      default:
+        push(CURRENCY_SIGN_PATTERN.test(char) ? { type: 'currency', symbol: char, position } : { type: 'literal', value: char, position })
+    }
+  }
+
+  if (textPlaceholder >= 0) {
+    fail('Digit placeholders are not allowed in the text section', textPlaceholder)
+  }
+  sections.push({ source: pattern.slice(start), position: start, tokens, condition, color })
+
+  return sections.map(section => ({ ...section, tokens: classifyCommas(section.tokens) }))
+}
+
+/**
+ * Tell group commas (between integer digits) from scaling commas (after the last digit) and literal ones
+ */
+function classifyCommas(tokens: PatternToken[]): PatternToken[] {
+  const isDigit = (token: PatternToken | undefined, roles: DigitRole[]): boolean =>
+    token?.type === 'digit' && roles.includes(token.role)
+
+  return tokens.map((token, index) => {
+    if (token.type !== 'group') {
+      return token
+    }
+
+    const before = tokens.slice(0, index).findLast(other => other.type !== 'group')
+    const after = tokens.slice(index + 1).find(other => other.type !== 'group')
+    if (isDigit(before, ['integer']) && isDigit(after, ['integer'])) {
+      return token
+    }
+    if (isDigit(before, ['integer', 'fraction'])) {
+      return { type: 'scale', position: token.position }
+    }
+    return { type: 'literal', value: ',', position: token.position }
+  })
+}
+
+/**
+ * Read the digit layout of a section, null when it has no digit placeholders
+ */
+function compileNumber(tokens: PatternToken[], pattern: string): NumberPattern | null {
+  const digits = tokens.filter((token): token is DigitToken => token.type === 'digit')
+  if (!digits.length) {
+    return null
+  }
+
+  const placeholders = (role: DigitRole): string =>
+    digits.filter(token => token.role === role).map(token => token.placeholder).join('')
+  const integer = placeholders('integer')
+  const fraction = placeholders('fraction')
+  const count = (type: PatternToken['type']): number => tokens.filter(token => token.type === type).length
+
+  // @@## rounds to 2 to 4 significant digits; # before the first @ only sets the grouping
+  let significantDigits: NumberPattern['significantDigits'] = null
+  const firstSignificant = integer.indexOf('@')
+  if (firstSignificant >= 0) {
+    if (integer.includes('0') || count('decimal') || count('slash')) {
+      throw new PatternSyntaxError('Significant digit placeholders cannot be combined with 0, a decimal point or a fraction', pattern, digits[firstSignificant].position)
+    }
+    const minimum = integer.split('@').length - 1
+    significantDigits = { minimum, maximum: integer.length - firstSignificant }
+  }
+
+  // Group sizes are the digits after the last comma, then between the last two
+  const sizes: number[] = [0]
+  for (const token of tokens) {
+    if (token.type === 'group') {
+      sizes.unshift(0)
+    }
+    else if (token.type === 'digit' && token.role === 'integer') {
+      sizes[0]++
+    }
+  }
+  const [primary, secondary] = sizes
+  const grouping = sizes.length < 2 || !primary ? null : sizes.length > 2 && secondary !== primary ? [primary, secondary] : [primary]
+  const slash = tokens.find(token => token.type === 'slash')
+
+  return {
+    integer,
+    fraction,
+    exponent: placeholders('exponent'),
+    decimalPoint: count('decimal') > 0,
+    grouping,
+    scale: 2 * count('percent') + 3 * count('permille') - 3 * count('scale'),
+    significantDigits,
+    rational: slash?.type === 'slash'
+      ? { numerator: placeholders('numerator'), denominator: placeholders('denominator'), fixedDenominator: slash.denominator }
+      : null,
+  }
+}
+
+/**
+ * Pick the section for a value and write it, with the colour of that section
+ */
+function formatSections(sections: PatternSection[], value: number | string | bigint, config: NumbersConfig, width?: number): PatternFormatResult {
+  const context = createContext(config)
+  const { symbols } = context
+  const result = (index: number, parts: NumberFormatPart[]): PatternFormatResult => {
+    const color = sections[index]?.color ?? null
+    return {
+      value: partsToString(parts),
+      parts,
+      section: index,
+      color: color && cssColor(color),
+      className: color && `numbers-${color}`,
+    }
+  }
+
+  const decimal = toDecimal(typeof value === 'string' ? value.trim() : value)
+  if (!decimal) {
+    // Text goes through the text section, NaN and infinities (including 1e9999) are written as they are
+    const numValue = Number(typeof value === 'string' ? value.trim() : value)
+    if (typeof value === 'string' && Number.isNaN(numValue)) {
+      return sections[3] ? result(3, renderSection(sections[3], null, false, context, width, value)) : result(-1, pushPart([], 'literal', value))
+    }
+    return result(-1, Number.isNaN(numValue)
+      ? [{ type: 'literal', value: 'NaN' }]
+      : pushPart(pushPart([], 'sign', numValue < 0 ? symbols.minusSign : ''), 'literal', '∞'))
+  }
+
+  const { index, signed } = selectSection(sections, decimal)
+  return result(index, renderSection(sections[index], decimal, signed, context, width))
+}
+
+/**
+ * Resolve the configuration and symbols a pattern is written with
+ */
+function createContext(config: NumbersConfig): RenderContext {
+  const resolved = resolveConfig(config)
+  const symbols = resolveFormatSymbols(resolved)
+  return {
+    config: resolved,
+    symbols,
+    toNative: digits => symbols.digits ? digits.replace(/\d/g, digit => symbols.digits![Number(digit)]) : digits,
+  }
+}
+
+/**
+ * Pick the section that writes a value, and whether it writes the sign
+ * Without conditions sections are positive;negative;zero, with them the first section
+ * whose condition holds is used, then the section without a condition
+ */
+function selectSection(sections: PatternSection[], value: DecimalValue): { index: number, signed: boolean } {
+  const [first, second] = sections
+  if (!first.condition && !second?.condition) {
+    if (sections.length >= 3 && isZeroDecimal(value)) {
+      return { index: 2, signed: false }
+    }
+    return sections.length >= 2 && value.negative ? { index: 1, signed: false } : { index: 0, signed: true }
+  }
+
+  const candidates = [0, 1, 2].filter(index => index < Math.min(sections.length, 3))
+  const index = candidates.find(index => !sections[index].condition || matchesCondition(value, sections[index].condition!)) ?? 0
+
+  // A section only for negative values ([<0]) writes them without a sign, like the negative section
+  const condition = sections[index].condition
+  const negativeOnly = !!condition && (condition.operator === '<' ? condition.value <= 0 : condition.operator === '<=' && condition.value < 0)
+  return { index, signed: !negativeOnly }
+}
+
+/**
+ * Check a value against a section condition, comparing exact decimals
+ */
+function matchesCondition(value: DecimalValue, { operator, value: limit }: PatternCondition): boolean {
+  const comparison = compareDecimal(value, toDecimal(limit)!)
+  switch (operator) {
+    case '<':
+      return comparison < 0
+    case '<=':
+      return comparison <= 0
+    case '=':
+      return comparison === 0
+    case '<>':
+      return comparison !== 0
+    case '>':
+      return comparison > 0
+    case '>=':
+      return comparison >= 0
+  }
+}
+
+/**
+ * Read the CSS colour of a colour code: red stays red, color10 is the tenth palette colour
+ */
+function cssColor(color: string): string {
+  return NAMED_COLORS.includes(color) ? color : PALETTE[Number(color.slice(5)) - 1]
+}
+
+/**
+ * Write a value through the tokens of a section
+ * Signed sections write a minus sign for negative values, the negative and zero sections write the absolute value
+ */
+function renderSection(
+  section: PatternSection,
+  value: DecimalValue | null,
+  signed: boolean,
+  context: RenderContext,
+  width?: number,
+  text: string = '',
+): NumberFormatPart[] {
+  const layout = value && section.number ? layoutDigits(section, section.number, value, context) : null
+  const negative = signed && !!value?.negative && !(layout?.isZero ?? isZeroDecimal(value!))
+
+  return renderTokens(section.tokens, layout?.output ?? new Map(), negative, context, {
+    leading: leadingSign(section, negative, context.symbols),
+    value,
+    text,
+    width,
+  })
+}
+
+/**
+ * Minus sign written in front of a negative value, unless a + placeholder writes it
+ */
+function leadingSign(section: PatternSection, negative: boolean, symbols: FormatSymbols): NumberFormatPart[] {
+  return negative && !section.tokens.some(token => token.type === 'plus') ? [{ type: 'sign', value: symbols.minusSign }] : []
+}
+
+/**
+ * Write tokens after the leading parts, with the output laid out for their digit placeholders
+ */
+function renderTokens(
+  tokens: PatternToken[],
+  output: Map<PatternToken, NumberFormatPart[]>,
+  negative: boolean,
+  context: RenderContext,
+  { leading = [], value = null, text = '', width }: { leading?: NumberFormatPart[], value?: DecimalValue | null, text?: string, width?: number } = {},
+): NumberFormatPart[] {
+  const { config, symbols } = context
+  const pieces: NumberFormatPart[] = [...leading]
+  let fill: { index: number, char: string } | null = null
+
+  for (const token of tokens) {
+    const laidOut = output.get(token)
+    if (laidOut) {
+      pieces.push(...laidOut)
+      continue
+    }
+
+    switch (token.type) {
+      case 'percent':
+        pieces.push({ type: 'literal', value: config.percentSign ?? '%' })
+        break
+      case 'permille':
+        pieces.push({ type: 'literal', value: '‰' })
+        break
+      case 'currency':
+        pieces.push({ type: 'currency', value: token.symbol ?? (symbols.currency || '$') })
+        break
+      case 'plus':
+        pieces.push({ type: 'sign', value: negative ? symbols.minusSign : symbols.plusSign })
+        break
+      case 'minus':
+        pieces.push({ type: 'sign', value: symbols.minusSign })
+        break
+      case 'literal':
+        pieces.push({ type: 'literal', value: token.value })
+        break
+      case 'space':
+        pieces.push({ type: 'literal', value: ' ' })
+        break
+      case 'fill':
+        fill = { index: pieces.length, char: token.char }
+        break
+      case 'text':
+        pieces.push({ type: 'literal', value: text })
+        break
+      case 'general':
+        pieces.push(...(value ? generalParts(value, context) : [{ type: 'literal' as const, value: text }]))
+        break
+    }
+  }
+
+  // The fill character repeats until the output is as wide as the cell
+  if (fill && width) {
+    const length = [...partsToString(pieces)].length
+    pieces.splice(fill.index, 0, { type: 'literal', value: fill.char.repeat(Math.max(0, width - length)) })
+  }
+
+  return pieces.reduce((parts, piece) => pushPart(parts, piece.type, piece.value), [] as NumberFormatPart[])
+}
+
+/**
+ * Round a value to the digits of a section and lay them out over its placeholders
+ */
+function layoutDigits(
+  section: PatternSection,
+  number: NumberPattern,
+  value: DecimalValue,
+  context: RenderContext,
+): { output: Map<PatternToken, NumberFormatPart[]>, isZero: boolean } {
+  if (number.rational) {
+    return layoutFraction(section, number, value, context)
+  }
+
+  const { config, symbols, toNative } = context
+  const output = new Map<PatternToken, NumberFormatPart[]>()
+  const digits = section.tokens.filter((token): token is DigitToken => token.type === 'digit')
+  const integerTokens = digits.filter(token => token.role === 'integer')
+  const fractionTokens = digits.filter(token => token.role === 'fraction')
+  const exponentToken = section.tokens.find(token => token.type === 'exponent')
+  const decimalToken = section.tokens.find(token => token.type === 'decimal')
+
+  // Round: to the fraction placeholders, or the significant digits of the pattern or configuration
+  const round = (scaled: DecimalValue): { rounded: DecimalValue, minimumSignificantDigits: number | null } => {
+    const precision = number.significantDigits
+      ? { places: number.significantDigits.maximum - 1 - decimalMagnitude(scaled), minimumSignificantDigits: number.significantDigits.minimum }
+      : resolvePrecision(scaled, number.fraction.length, config)
+    return { rounded: roundDecimal(scaled, precision.places, config.roundingMethod ?? 'S'), minimumSignificantDigits: precision.minimumSignificantDigits }
+  }
+
+  const scaled = shiftDecimal(value, number.scale)
+  let exponent = 0
+  let result = round(scaled)
+  if (exponentToken) {
+    exponent = pickExponent(scaled, number)
+    result = round(shiftDecimal(scaled, -exponent))
+
+    // Rounding can carry into a new digit (9.9996 -> 10.00), which moves the exponent
+    const carried = shiftDecimal(result.rounded, exponent)
+    if (pickExponent(carried, number) !== exponent) {
+      exponent = pickExponent(carried, number)
+      result = round(shiftDecimal(carried, -exponent))
+    }
+  }
+
+  const { rounded, minimumSignificantDigits } = result
+  const split = splitDecimal(absDecimal(rounded))
+  const significant = minimumSignificantDigits !== null
+  const minimumInteger = significant ? 1 : number.integer.split('0').length - 1
+  const integer = split.integer.replace(/^0+/, '').padStart(minimumInteger, '0')
+
+  layoutInteger(section, number, integer, context, output)
+
+  // Fraction digits: significant digits write their own, placeholders drop (#) or blank (?) trailing zeros
+  const fractionParts: NumberFormatPart[] = []
+  if (significant) {
+    const minimumFraction = Math.max(0, minimumSignificantDigits - 1 - decimalMagnitude(rounded))
+    const fraction = (split.fraction.slice(0, minimumFraction) + split.fraction.slice(minimumFraction).replace(/0+$/, '')).padEnd(minimumFraction, '0')
+    pushPart(fractionParts, 'fraction', toNative(fraction))
+    fractionTokens.forEach(token => output.set(token, []))
+  }
+  else {
+    const placeholders = number.fraction
+    let lastKept = -1
+    for (let index = 0; index < placeholders.length; index++) {
+      if (split.fraction.charAt(index) !== '0' || placeholders.charAt(index) === '0') {
+        lastKept = index
+      }
+    }
+    fractionTokens.forEach((token, index) => {
+      const part: NumberFormatPart = index <= lastKept
+        ? { type: 'fraction', value: toNative(split.fraction.charAt(index)) }
+        : { type: 'literal', value: token.placeholder === '?' ? ' ' : '' }
+      output.set(token, [part])
+      pushPart(fractionParts, part.type, part.value)
+    })
+  }
+
+  // The decimal point shows with fraction digits, or on its own when no placeholders follow it (0.)
+  const showDecimal = fractionParts.length > 0 || (number.decimalPoint && !number.fraction)
+  const decimalParts: NumberFormatPart[] = showDecimal ? [{ type: 'decimal', value: symbols.decimal }] : []
+  if (!integerTokens.length && integer) {
+    // Integer digits still show without integer placeholders (.00 writes 1.50)
+    decimalParts.unshift({ type: 'integer', value: toNative(integer) })
+  }
+  if (significant) {
+    decimalParts.push(...fractionParts)
+  }
+  if (decimalToken) {
+    output.set(decimalToken, decimalParts)
+  }
+  else if (integerTokens.length) {
+    output.get(integerTokens[0])!.push(...decimalParts)
+  }
+
+  if (exponentToken?.type === 'exponent') {
+    const minimumDigits = number.exponent.split('0').length - 1
+    const sign = exponent < 0 ? '-' : exponentToken.showPlus ? '+' : ''
+    const digitsText = toNative(String(Math.abs(exponent)).padStart(minimumDigits, '0'))
+    output.set(exponentToken, [{ type: 'exponent', value: `${exponentToken.upper ? 'E' : 'e'}${sign}${digitsText}` }])
+    digits.filter(token => token.role === 'exponent').forEach(token => output.set(token, []))
+  }
+
+  return { output, isZero: isZeroDecimal(rounded) }
+}
+
+/**
+ * Lay the integer digits out over the integer placeholders: grouped in one run,
+ * or one per placeholder when literals sit between them (000-0000)
+ */
+function layoutInteger(
+  section: PatternSection,
+  number: NumberPattern,
+  integer: string,
+  { config, symbols, toNative }: RenderContext,
+  output: Map<PatternToken, NumberFormatPart[]>,
+): void {
+  const integerTokens = section.tokens.filter((token): token is DigitToken => token.type === 'digit' && token.role === 'integer')
+  const firstInteger = section.tokens.indexOf(integerTokens[0])
+  const lastInteger = section.tokens.indexOf(integerTokens[integerTokens.length - 1])
+  const interleaved = section.tokens.slice(firstInteger, lastInteger).some(token => token.type !== 'digit' && token.type !== 'group')
+  if (integerTokens.length && !interleaved) {
+    const padding = integerTokens.slice(0, Math.max(0, integerTokens.length - integer.length)).filter(token => token.placeholder === '?').length
+    const grouped = integer ? groupIntegerParts(toNative(integer), { ...symbols, grouping: number.grouping }, config) : []
+    output.set(integerTokens[0], [{ type: 'literal', value: ' '.repeat(padding) }, ...grouped])
+    return
+  }
+
+  const chars = [...toNative(integer)]
+  for (let slot = integerTokens.length - 1; slot >= 0; slot--) {
+    const taken = slot === 0 ? chars.splice(0).join('') : chars.pop() ?? ''
+    const placeholder = integerTokens[slot].placeholder
+    output.set(integerTokens[slot], taken
+      ? [{ type: 'integer', value: taken }]
+      : [{ type: 'literal', value: placeholder === '?' ? ' ' : '' }])
+  }
+}
+
+/**
+ * Lay a value out as a fraction: the whole part over the integer placeholders, none for ?/?,
+ * the numerator right-aligned and the denominator left-aligned over theirs
+ */
+function layoutFraction(
+  section: PatternSection,
+  number: NumberPattern,
+  value: DecimalValue,
+  context: RenderContext,
+): { output: Map<PatternToken, NumberFormatPart[]>, isZero: boolean } {
+  const { config, toNative } = context
+  const rational = number.rational!
+  const output = new Map<PatternToken, NumberFormatPart[]>()
+  const digits = section.tokens.filter((token): token is DigitToken => token.type === 'digit')
+  const numeratorTokens = digits.filter(token => token.role === 'numerator')
+  const denominatorTokens = digits.filter(token => token.role === 'denominator')
+  const slash = section.tokens.find(token => token.type === 'slash')!
+  const mixed = number.integer.length > 0
+
+  // ?? allows denominators up to 99, ?/8 rounds to eighths
+  const { whole, numerator, denominator } = splitFraction(shiftDecimal(value, number.scale), {
+    mixed,
+    maximumDenominator: 10 ** rational.denominator.length - 1,
+    fixedDenominator: rational.fixedDenominator,
+    roundingMethod: config.roundingMethod,
+  })
+  const isZero = whole === 0n && numerator === 0n
+
+  const minimumInteger = number.integer.split('0').length - 1
+  layoutInteger(section, number, isZero ? '0' : (whole > 0n ? whole.toString() : '').padStart(minimumInteger, '0'), context, output)
+
+  // Whole numbers leave out the fraction, as spaces when ? placeholders keep the column aligned
+  if (mixed && numerator === 0n) {
+    const aligned = rational.numerator.includes('?') || rational.denominator.includes('?')
+    const start = section.tokens.findLastIndex(token => token.type === 'digit' && token.role === 'integer') + 1
+    const end = Math.max(section.tokens.indexOf(slash), section.tokens.indexOf(denominatorTokens[denominatorTokens.length - 1]))
+    for (const token of section.tokens.slice(start, end + 1)) {
+      const width = token.type === 'literal' ? token.value.length : token.type === 'slash' ? 1 + String(token.denominator ?? '').length : 1
+      output.set(token, [{ type: 'literal', value: aligned ? ' '.repeat(width) : '' }])
+    }
+    return { output, isZero }
+  }
+
+  // Unused numerator placeholders pad on the left, unused denominator placeholders on the right
+  const numeratorText = numerator.toString()
+  const numeratorParts: NumberFormatPart[] = []
+  numeratorTokens.slice(0, Math.max(0, numeratorTokens.length - numeratorText.length)).forEach((token) => {
+    pushPart(numeratorParts, token.placeholder === '0' ? 'numerator' : 'literal', token.placeholder === '0' ? toNative('0') : token.placeholder === '?' ? ' ' : '')
+  })
+  pushPart(numeratorParts, 'numerator', toNative(numeratorText))
+  numeratorTokens.forEach((token, index) => output.set(token, index ? [] : numeratorParts))
+
+  const denominatorText = denominator.toString()
+  output.set(slash, [
+    { type: 'literal', value: '/' },
+    ...(rational.fixedDenominator ? [{ type: 'denominator' as const, value: toNative(denominatorText) }] : []),
+  ])
+  const padding = denominatorTokens.slice(denominatorText.length).filter(token => token.placeholder === '?').length
+  denominatorTokens.forEach((token, index) => output.set(token, index
+    ? []
+    : [{ type: 'denominator', value: toNative(denominatorText) }, { type: 'literal', value: ' '.repeat(padding) }]))
+
+  return { output, isZero }
+}
+
+/**
+ * Pick the exponent for a value: a multiple of the integer placeholders for ##0.0E+0,
+ * otherwise the one leaving as many integer digits as there are 0 placeholders
+ */
+function pickExponent(value: DecimalValue, number: NumberPattern): number {
+  if (isZeroDecimal(value)) {
+    return 0
+  }
+
+  const magnitude = decimalMagnitude(value)
+  const minimumInteger = number.integer.split('0').length - 1
+  if (number.integer.length > 1 && number.integer.length > minimumInteger) {
+    return Math.floor(magnitude / number.integer.length) * number.integer.length
+  }
+
+  return magnitude - Math.max(minimumInteger, 1) + 1
+}
+
+/**
+ * Write a value for the General keyword: ungrouped, with up to ten decimals
+ */
+function generalParts(value: DecimalValue, { symbols, toNative }: RenderContext): NumberFormatPart[] {
+  const { integer, fraction } = splitDecimal(absDecimal(roundDecimal(value, 10)))
+  const trimmed = fraction.replace(/0+$/, '')
+  const parts = pushPart([], 'integer', toNative(integer))
+
+  return trimmed ? pushPart(pushPart(parts, 'decimal', symbols.decimal), 'fraction', toNative(trimmed)) : parts
+}
+
+/**
+ * Rewrite partly typed input with the section it belongs to: the positive one, or the negative one
+ * once a minus sign is typed, and the positive one again after a second minus sign or a plus sign.
+ * Only the typed digits are written, grouped, with the literals of the section around them, and the caret
+ * stays before as many digits as it was before in the input, so it never lands among the literals
+ */
+function maskSections(sections: PatternSection[], input: string, caret: number, config: NumbersConfig): PatternMaskResult {
+  const context = createContext(config)
+  const { symbols, toNative } = context
+  const [first, second] = sections
+  const maskable = (section: PatternSection | undefined): section is PatternSection => !!section?.number
+    && !section.number.rational && !section.number.exponent && !section.tokens.some(token => token.type === 'general')
+  if (!maskable(first)) {
+    return { value: input, caret, start: 0, end: input.length }
+  }
+
+  // The literals around the number in the positive and negative sections, or around a signed positive section
+  const positive = maskState(first, false, context)
+  const negative = maskable(second) && !first.condition && !second.condition ? maskState(second, false, context) : maskState(first, true, context)
+  const matches = ({ prefix, suffix }: MaskState): boolean =>
+    input.length >= prefix.length + suffix.length && input.startsWith(prefix) && input.endsWith(suffix)
+  const inNegative = (negative.prefix !== positive.prefix || negative.suffix !== positive.suffix) && matches(negative)
+  const current = inNegative ? negative : matches(positive) ? positive : null
+
+  // Read the digits, the decimal point and the signs typed between the literals
+  const { number } = inNegative ? negative.section : positive.section
+  const hasDecimal = first.tokens.some(token => token.type === 'decimal')
+  const { tokens } = inNegative ? negative.section : positive.section
+  const literals = tokens.slice(tokens.findIndex(isNumberToken), tokens.findLastIndex(isNumberToken))
+    .flatMap(token => token.type === 'literal' ? [...token.value] : token.type === 'minus' ? ['-', symbols.minusSign] : [])
+  const kept: { char: string, index: number, fraction: boolean }[] = []
+  let minusSigns = 0
+  let plusSign = false
+  let pointed = false
+  for (let index = current?.prefix.length ?? 0; index < input.length - (current?.suffix.length ?? 0); index++) {
+    const char = toAsciiDigits(input.charAt(index))
+    if (isDecimalDigit(char)) {
+      kept.push({ char, index, fraction: pointed })
+    }
+    else if (char === symbols.decimal && hasDecimal && !pointed) {
+      pointed = true
+      kept.push({ char, index, fraction: false })
+    }
+    else if (literals.includes(char)) {
+      continue
+    }
+    else if (char === '-' || char === symbols.minusSign) {
+      minusSigns++
+    }
+    else if (char === '+' || char === symbols.plusSign) {
+      plusSign = true
+    }
+  }
+
+  // Fraction digits stop at the fraction placeholders
+  const fractionLimit = number!.significantDigits ? Infinity : number!.fraction.length
+  const digits = kept.filter(({ fraction }, position) => !fraction || kept.slice(0, position).filter(entry => entry.fraction).length < fractionLimit)
+  const after = digits.filter(({ index }) => index >= caret).length
+  const integer = digits.filter(({ char, fraction }) => !fraction && char !== symbols.decimal).map(({ char }) => char).join('')
+  const fraction = digits.filter(({ fraction }) => fraction).map(({ char }) => char).join('')
+
+  const target = !plusSign && inNegative !== (minusSigns % 2 === 1) ? negative : positive
+  if (!digits.length && target === positive) {
+    return { value: '', caret: 0, start: 0, end: 0 }
+  }
+
+  const { section } = target
+  const output = new Map<PatternToken, NumberFormatPart[]>()
+  const integerText = integer.replace(/^0+/, '') || (integer || pointed ? '0' : '')
+  const hasInteger = section.tokens.some(token => token.type === 'digit' && token.role === 'integer')
+  layoutInteger(section, section.number!, hasInteger ? integerText : '', context, output)
+
+  // Literals between integer placeholders (000-0000) show once the digits reach them
+  const firstNumber = section.tokens.findIndex(isNumberToken)
+  const lastInteger = section.tokens.findLastIndex(token => token.type === 'digit' && token.role === 'integer')
+  let reached = false
+  for (const token of section.tokens.slice(firstNumber, Math.max(firstNumber, lastInteger))) {
+    if (output.get(token)?.some(part => part.type === 'integer')) {
+      reached = true
+    }
+    else if (!reached && token.type !== 'digit') {
+      output.set(token, [])
+    }
+  }
+
+  const decimalParts: NumberFormatPart[] = pointed ? [{ type: 'decimal', value: symbols.decimal }] : []
+  if (!hasInteger && integerText) {
+    decimalParts.unshift({ type: 'integer', value: toNative(integerText) })
+  }
+  pushPart(decimalParts, 'fraction', toNative(fraction))
+  for (const token of section.tokens) {
+    if (token.type === 'decimal') {
+      output.set(token, decimalParts)
+    }
+    else if (token.type === 'digit' && token.role === 'fraction') {
+      output.set(token, [])
+    }
+  }
+
+  const parts = renderTokens(section.tokens, output, target.signed, context, { leading: leadingSign(section, target.signed, symbols) })
+  const value = partsToString(parts)
+
+  // The caret goes before the same number of typed characters, counted from the end of the number
+  const positions: number[] = []
+  let offset = 0
+  for (const part of parts) {
+    if (part.type === 'integer' || part.type === 'decimal' || part.type === 'fraction') {
+      positions.push(...Array.from({ length: part.value.length }, (_, index) => offset + index))
+    }
+    offset += part.value.length
+  }
+  const start = target.prefix.length
+  const end = value.length - target.suffix.length
+  const position = !positions.length
+    ? start
+    : after === 0 ? positions[positions.length - 1] + 1 : positions[Math.max(0, positions.length - after)]
+
+  return { value, caret: position, start, end }
+}
+
+/**
+ * Read the literals of a section around its number
+ */
+function maskState(section: PatternSection, signed: boolean, context: RenderContext): MaskState {
+  const { tokens } = section
+  const empty = new Map<PatternToken, NumberFormatPart[]>()
+  const before = renderTokens(tokens.slice(0, tokens.findIndex(isNumberToken)), empty, signed, context, { leading: leadingSign(section, signed, context.symbols) })
+  const after = renderTokens(tokens.slice(tokens.findLastIndex(isNumberToken) + 1), empty, signed, context)
+
+  return { section, signed, prefix: partsToString(before), suffix: partsToString(after) }
+}
+
+/**
+ * Check for the tokens a number is written with: digit placeholders and the decimal point
+ */
+function isNumberToken(token: PatternToken): boolean {
+  return token.type === 'digit' || token.type === 'decimal'
+}
@@ -0,0 +1,434 @@
+import type { ConfigToPatternResult, NumbersConfig, PatternFeature, PatternName, PatternSection, PatternToConfigResult, PatternToken } from './types'
+import { defaultConfig } from './config'
+import { resolveFormatSymbols, resolveGrouping } from './format'
+import { formatPatterns, getPattern } from './format-patterns'
+import { resolveConfig } from './locale'
+import { compilePattern } from './pattern-compiler'
+
+// Options that change the output but have no pattern syntax, so a pattern drops them when set
+const UNCARRIED_OPTIONS: (keyof NumbersConfig)[] = [
+  'locale',
+  'decimalCharacter',
+  'minimumGroupingDigits',
+  'negativeSignCharacter',
+  'positiveSignCharacter',
+  'roundingMethod',
+  'roundingIncrement',
+  'roundingPriority',
+  'cashRounding',
+  'decimalPlacesShownOnBlur',
+  'decimalPlacesShownOnFocus',
+  'divisorWhenUnfocused',
+  'symbolWhenUnfocused',
+  'numberingSystem',
+  'percentSign',
+  'useScientificNotation',
+  'engineeringNotation',
+  'siUnitPrefixes',
+  'useCompactNotation',
+  'isSpecializedType',
+]
+
+/**
+ * Offsets in a section where the number starts and ends, and its length
+ */
+interface SignOffsets {
+  start: number
+  end: number
+  length: number
+}
+
+// Tokens that make up the number itself, between the prefix and the suffix
+const BODY_TOKENS: PatternToken['type'][] = ['digit', 'decimal', 'group', 'slash', 'exponent', 'general']
+
+/**
+ * Write a configuration as a format pattern, with the options the pattern cannot express
+ * Separators stay locale-neutral (, and .) as in every pattern, the symbols come from the configuration it is applied with
+ */
+export function configToPattern(config: NumbersConfig): ConfigToPatternResult {
+  const resolved = resolveConfig(config)
+  const symbols = resolveFormatSymbols(resolved)
+  const lossy = new Set<keyof NumbersConfig>(
+    UNCARRIED_OPTIONS.filter(option => config[option] !== undefined && config[option] !== defaultConfig[option]),
+  )
+  if (config.digitGroupSeparator !== undefined && config.digitGroupSeparator !== ',' && config.digitGroupSeparator !== '') {
+    lossy.add('digitGroupSeparator')
+  }
+
+  const grouping = resolved.useGrouping === false || !resolved.digitGroupSeparator ? null : resolveGrouping(resolved.digitGroupSpacing)
+  const number = numberPlaceholders(config, resolved, grouping, lossy)
+
+  // Currency and suffix text around the number; spaces in a symbol such as 'CHF ' stay outside the code
+  const { currency: symbol, currencySpacing: spacing, currencyPlacement } = symbols
+  const display = !symbol ? '' : currencyPlacement === 'p' ? `${symbol}${spacing}` : `${spacing}${symbol}`
+  const core = display.trim()
+  const currency = core ? display.replace(core, currencyToken(core)) : ''
+  if (core && config.currencySymbol && config.currencySymbol.trim() !== core) {
+    // An ISO code the locale writes as a symbol (USD as $) keeps only the symbol
+    lossy.add('currencySymbol')
+  }
+  const prefix = currencyPlacement === 'p' ? currency : ''
+  const suffix = quoteLiteral(resolved.suffixText ?? '') + (currencyPlacement === 's' ? currency : '')
+
+  // 'l' and 'r' put the sign next to the digits, 'p' and 's' outside the currency symbol and suffix text
+  const placement = resolved.negativePositiveSignPlacement ?? 'l'
+  const section = (sign: string): string => {
+    const pieces = [prefix, number, suffix]
+    pieces.splice({ p: 0, l: 1, r: 2, s: 3 }[placement], 0, sign)
+    return pieces.join('')
+  }
+
+  // The minus sign of a single section goes in front of everything, otherwise the negative section places it
+  const positive = section(resolved.showPositiveSign ? '+' : '')
+  const brackets = resolved.negativeBracketsTypeOnBlur?.split(',') ?? []
+  const negative = brackets.length === 2
+    ? `${quoteLiteral(brackets[0])}${section('')}${quoteLiteral(brackets[1])}`
+    : resolved.showPositiveSign || section('-') === `-${positive}` ? null : section('-')
+  const pattern = negative === null ? positive : `${positive};${negative}`
+
+  return {
+    pattern,
+    name: (Object.keys(formatPatterns) as (keyof typeof formatPatterns)[]).find(name => formatPatterns[name] === pattern) ?? null,
+    lossy: [...lossy],
+  }
+}
+
+/**
+ * Read a format pattern, or the name of a predefined or registered one, into a configuration
+ * with the parts of the pattern the configuration cannot express
+ */
+export function patternToConfig(pattern: string): PatternToConfigResult {
+  const source = getPattern(pattern as PatternName)?.pattern ?? pattern
+  const [positive, negative, zero, text] = compilePattern(source).sections
+  const lossy = new Set<PatternFeature>()
+  const config: NumbersConfig = {}
+
+  if (positive.condition || negative?.condition) {
+    lossy.add('condition')
+  }
+  if (positive.color || negative?.color || zero?.color) {
+    lossy.add('color')
+  }
+  if (zero) {
+    lossy.add('zeroSection')
+  }
+  if (text) {
+    lossy.add('textSection')
+  }
+
+  readNumber(positive, config, lossy)
+  const body = readAffixes(positive, config, lossy)
+
+  // The sign: a + in the positive section, the - of the negative section, or in front of everything
+  const plus = positive.tokens.find(token => token.type === 'plus')
+  if (plus) {
+    config.showPositiveSign = true
+  }
+  if (!negative) {
+    setSignPlacement(config, plus ? sourceOffset(positive, plus.position) : 0, body, lossy)
+  }
+  else {
+    readNegativeSection(positive, negative, config, body, lossy)
+  }
+
+  return { config, lossy: [...lossy] }
+}
+
+/**
+ * Replace the pattern option with the options read from the named pattern and the ones registered along with it,
+ * and add the options read from formatPattern, so input written with it parses; options set beside them win
+ */
+export function expandPatternConfig(config: NumbersConfig): NumbersConfig {
+  let expanded = config
+  if (config.pattern) {
+    const registered = getPattern(config.pattern)
+    if (!registered) {
+      throw new Error(`Unknown format pattern: ${String(config.pattern)}`)
+    }
+    expanded = { ...patternToConfig(registered.pattern).config, ...registered.config, ...expanded }
+  }
+
+  if (expanded.formatPattern) {
+    const registered = getPattern(expanded.formatPattern as PatternName)
+    const formatPattern = registered?.pattern ?? expanded.formatPattern
+    expanded = { ...patternToConfig(formatPattern).config, ...registered?.config, ...expanded, formatPattern }
+  }
+
+  return expanded
+}
+
+/**
+ * Write the digit placeholders for the rounding and grouping of a configuration
+ */
+function numberPlaceholders(
+  config: NumbersConfig,
+  resolved: NumbersConfig,
+  grouping: number[] | null,
+  lossy: Set<keyof NumbersConfig>,
+): string {
+  // Fractions: ## allows denominators up to 99, a fixed denominator is written as it is
+  if (resolved.fractionMode) {
+    const maximumDenominator = resolved.maximumDenominator ?? 16
+    const width = String(maximumDenominator).length
+    if (!resolved.fixedDenominator && maximumDenominator !== 10 ** width - 1) {
+      lossy.add('maximumDenominator')
+    }
+    const fraction = `${'#'.repeat(width)}/${resolved.fixedDenominator ?? '#'.repeat(width)}`
+    return resolved.fractionMode === 'mixed' ? `${groupPlaceholders('#', grouping)} ${fraction}` : fraction
+  }
+
+  // Significant digits: @@## rounds to 2 to 4 of them, in place of the decimal places
+  const { minimumSignificantDigits: minimum, maximumSignificantDigits: maximum } = resolved
+  if (minimum || maximum) {
+    if (config.decimalPlaces !== undefined) {
+      lossy.add('decimalPlaces')
+    }
+    const atLeast = Math.max(1, minimum ?? 1)
+    return groupPlaceholders('@'.repeat(atLeast) + '#'.repeat(Math.max(0, (maximum ?? 21) - atLeast)), grouping)
+  }
+
+  // Decimals are padded with 0 or dropped with #; padding only numbers with decimals has no placeholder
+  const decimalPlaces = resolved.decimalPlaces ?? 2
+  if (resolved.allowDecimalPadding === 'floats') {
+    lossy.add('allowDecimalPadding')
+  }
+  const fraction = (resolved.allowDecimalPadding === true ? '0' : '#').repeat(decimalPlaces)
+  return groupPlaceholders('0', grouping) + (fraction ? `.${fraction}` : '')
+}
+
+/**
+ * Put group commas into integer placeholders, padding with # so every group size shows (#,##,##0)
+ */
+function groupPlaceholders(placeholders: string, grouping: number[] | null): string {
+  if (!grouping) {
+    return placeholders
+  }
+
+  const [primary, secondary = primary] = grouping
+  let rest = placeholders.padStart(grouping.length > 1 ? primary + secondary + 1 : primary + 1, '#')
+  let grouped = rest.slice(-primary)
+  rest = rest.slice(0, -primary)
+  while (rest) {
+    grouped = `${rest.slice(-secondary)},${grouped}`
+    rest = rest.slice(0, -secondary)
+  }
+
+  return grouped
+}
+
+/**
+ * Write a currency symbol: a currency sign as it is, other symbols and codes in brackets ([$CHF])
+ */
+function currencyToken(symbol: string): string {
+  if (/^\p{Sc}$/u.test(symbol)) {
+    return symbol
+  }
+  return /^[^-\]]+$/.test(symbol) ? `[$${symbol}]` : quoteLiteral(symbol)
+}
+
+/**
+ * Quote literal text, leaving spaces and brackets bare
+ */
+function quoteLiteral(text: string): string {
+  if (/^[\s()]*$/.test(text)) {
+    return text
+  }
+  return text.split('"').map(piece => piece && `"${piece}"`).join('\\"')
+}
+
+/**
+ * Read the digit placeholders of a section into rounding, padding and grouping options
+ */
+function readNumber(section: PatternSection, config: NumbersConfig, lossy: Set<PatternFeature>): void {
+  const number = section.number
+  if (section.tokens.some(token => token.type === 'general')) {
+    Object.assign(config, { decimalPlaces: 10, allowDecimalPadding: false, useGrouping: false })
+    return
+  }
+  if (!number) {
+    lossy.add('literal')
+    return
+  }
+
+  if (number.grouping) {
+    config.digitGroupSpacing = number.grouping.length === 1 && number.grouping[0] === 3 ? '3' : number.grouping
+  }
+  else {
+    config.useGrouping = false
+  }
+
+  if (number.rational) {
+    const { denominator, fixedDenominator } = number.rational
+    config.fractionMode = number.integer ? 'mixed' : 'improper'
+    if (fixedDenominator) {
+      config.fixedDenominator = fixedDenominator
+    }
+    else {
+      config.maximumDenominator = 10 ** denominator.length - 1
+    }
+    return
+  }
+
+  if (number.significantDigits) {
+    config.minimumSignificantDigits = number.significantDigits.minimum
+    config.maximumSignificantDigits = number.significantDigits.maximum
+  }
+  else {
+    // 0.00 pads the decimals and #.## drops their zeros; 0.0#, 000 and ? placeholders have no option
+    config.decimalPlaces = number.fraction.length
+    config.allowDecimalPadding = !number.fraction.includes('#') && !number.fraction.includes('?')
+    const mixedFraction = number.fraction.includes('0') && number.fraction.includes('#')
+    if (mixedFraction || /\?/.test(number.integer + number.fraction) || number.integer.split('0').length !== 2) {
+      lossy.add('placeholders')
+    }
+  }
+
+  if (number.exponent) {
+    lossy.add('exponent')
+  }
+}
+
+/**
+ * Read the currency symbol and suffix text around the number, returning where the number starts and ends
+ * Offsets are in the section without its condition and colour codes
+ */
+function readAffixes(section: PatternSection, config: NumbersConfig, lossy: Set<PatternFeature>): SignOffsets {
+  const { tokens } = section
+  const first = tokens.findIndex(token => BODY_TOKENS.includes(token.type))
+  const last = tokens.findLastIndex(token => BODY_TOKENS.includes(token.type))
+  const offset = (index: number): number => sourceOffset(section, index < tokens.length ? tokens[index].position : section.position + section.source.length)
+
+  let currency: { symbol: string, before: boolean } | null = null
+  let currencySpacing = ''
+  let suffixText = ''
+  tokens.forEach((token, index) => {
+    const before = index < first
+    const inBody = index >= first && index <= last
+
+    switch (token.type) {
+      case 'currency':
+        currency = { symbol: token.symbol ?? '$', before }
+        break
+      case 'literal': {
+        // Spaces next to the currency symbol belong to it, as in 'CHF ' and ' €'
+        const spacing = /^\s+$/.test(token.value) && tokens[before ? index - 1 : index + 1]?.type === 'currency'
+        const afterCurrency = !before && tokens.slice(last + 1, index).some(other => other.type === 'currency')
+        if (inBody) {
+          // Only the space of a mixed fraction (# ?/?) sits between digits without a matching option
+          if (!section.number?.rational || !/^\s+$/.test(token.value)) {
+            lossy.add('literal')
+          }
+        }
+        else if (spacing) {
+          currencySpacing = token.value
+        }
+        else if (!before && !afterCurrency) {
+          suffixText += token.value
+        }
+        else if (!/^\s*$/.test(token.value)) {
+          lossy.add('literal')
+        }
+        break
+      }
+      case 'percent':
+      case 'permille':
+        suffixText += token.type === 'percent' ? '%' : '‰'
+        lossy.add('scale')
+        break
+      case 'scale':
+        config.divisorWhenUnfocused = (config.divisorWhenUnfocused ?? 1) * 1000
+        lossy.add('scale')
+        break
+      case 'fill':
+      case 'space':
+        lossy.add('fill')
+        break
+      case 'minus':
+      case 'text':
+        lossy.add('literal')
+        break
+    }
+  })
+
+  if (currency) {
+    const { symbol, before } = currency as { symbol: string, before: boolean }
+    config.currencySymbol = before ? `${symbol}${currencySpacing}` : `${currencySpacing}${symbol}`
+    config.currencySymbolPlacement = before ? 'p' : 's'
+  }
+  if (suffixText) {
+    config.suffixText = suffixText
+  }
+
+  return { start: first < 0 ? 0 : offset(first), end: first < 0 ? 0 : offset(last + 1), length: offset(tokens.length) }
+}
+
+/**
+ * Read the negative section as brackets around the positive one, or as a minus sign placed in it
+ */
+function readNegativeSection(
+  positive: PatternSection,
+  negative: PatternSection,
+  config: NumbersConfig,
+  body: SignOffsets,
+  lossy: Set<PatternFeature>,
+): void {
+  const positiveSource = withoutCodes(positive.source)
+  const negativeSource = withoutCodes(negative.source)
+
+  const open = negativeSource.charAt(0)
+  const close = negativeSource.charAt(negativeSource.length - 1)
+  if (/^[^\w\s"'\\$#?@.,+-]$/.test(open) && negativeSource === `${open}${positiveSource.replace('+', '')}${close}`) {
+    config.negativeBracketsTypeOnBlur = `${open},${close}`
+    return
+  }
+
+  // The minus sign takes the place of the + sign, or is inserted where the sign goes
+  const minus = negativeSource.indexOf('-')
+  const rest = minus < 0 ? null : negativeSource.slice(0, minus) + (config.showPositiveSign ? '+' : '') + negativeSource.slice(minus + 1)
+  if (rest !== positiveSource) {
+    lossy.add('negativeSection')
+    return
+  }
+  setSignPlacement(config, minus, body, lossy)
+}
+
+/**
+ * Set the sign placement for a sign written at an offset of the positive section
+ */
+function setSignPlacement(config: NumbersConfig, index: number, body: SignOffsets, lossy: Set<PatternFeature>): void {
+  if (index === body.start) {
+    if (index > 0) {
+      config.negativePositiveSignPlacement = 'l'
+    }
+  }
+  else if (index === 0) {
+    config.negativePositiveSignPlacement = 'p'
+  }
+  else if (index === body.end) {
+    config.negativePositiveSignPlacement = 'r'
+  }
+  else if (index === body.length) {
+    config.negativePositiveSignPlacement = 's'
+  }
+  else {
+    lossy.add('negativeSection')
+  }
+}
+
+/**
+ * Drop the condition and colour codes a section starts with, keeping currency codes ([$€-407])
+ */
+function withoutCodes(source: string): string {
+  let rest = source
+  while (rest.startsWith('[') && !rest.startsWith('[$') && rest.includes(']')) {
+    rest = rest.slice(rest.indexOf(']') + 1)
+  }
+  return rest
+}
+
+/**
+ * Offset of a pattern position in its section, not counting the codes the section starts with
+ */
+function sourceOffset(section: PatternSection, position: number): number {
+  return position - section.position - (section.source.length - withoutCodes(section.source).length)
+}
@@ -8,7 +8,7 @@ import { formatNumber, parseNumber } from './format'
  * @param config - Optional configuration to apply to all numbers
  * @returns Array of formatted strings
  */
-export function bulkFormat(values: (number | string)[], config?: NumbersConfig): string[] {
+export function bulkFormat(values: (number | string | bigint)[], config?: NumbersConfig): string[] {
   return values.map(value => formatNumber({ value, config }))
 }
 
@@ -29,7 +29,7 @@ export function bulkParse(values: string[], config?: NumbersConfig): number[] {
  * @param config - Optional configuration
  * @returns Performance metrics
  */
-export function measureFormatPerformance(values: (number | string)[], config?: NumbersConfig): {
+export function measureFormatPerformance(values: (number | string | bigint)[], config?: NumbersConfig): {
   totalTime: number
   averageTime: number
   operationsPerSecond: number
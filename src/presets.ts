@@ -48,7 +48,7 @@ export const franc: NumbersConfig = {
   currencySymbol: 'CHF ',
   currencySymbolPlacement: 'p',
   negativePositiveSignPlacement: 'l',
-  roundingMethod: 'N05',
+  cashRounding: true, // Swiss cash amounts round to 5 rappen
 }
 
 // Indian Rupee format options (using lakhs and crores)
@@ -57,7 +57,7 @@ export const rupee: NumbersConfig = {
   decimalCharacter: '.',
   currencySymbol: '₹',
   currencySymbolPlacement: 'p',
-  digitGroupSpacing: '2',
+  digitGroupSpacing: [3, 2],
   negativePositiveSignPlacement: 'l',
 }
 
@@ -222,7 +222,7 @@ export const hindiIN: NumbersConfig = {
   numberingSystem: 'deva',
   useGrouping: true,
   decimalPlaces: 2,
-  digitGroupSpacing: '2', // For lakh/crore system
+  digitGroupSpacing: [3, 2], // Lakh and crore: 1,23,45,678
 }
 
 /**
@@ -263,7 +263,7 @@ export const indianIN: NumbersConfig = {
   locale: 'en-IN',
   useGrouping: true,
   decimalPlaces: 2,
-  digitGroupSpacing: '2',
+  digitGroupSpacing: [3, 2], // Lakh and crore: 1,23,45,678
 }
 
 /**
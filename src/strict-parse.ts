@@ -0,0 +1,270 @@
+import type { DecimalValue, NumbersConfig, ParseError, ParseErrorReason, ParseNumberOptions, StrictParseResult } from './types'
+import { compactSuffixSpellings, resolveCompactSuffixes } from './compact'
+import { listCurrencyTexts } from './currencies'
+import { compareDecimal, decimalToNumber, decimalToString, MAX_DECIMAL_EXPONENT, negateDecimal, parseDecimal, shiftDecimal, toDecimal } from './decimal'
+import { digitValue, isDecimalDigit } from './digits'
+import { parseNumber, resolveFormatSymbols, resolveRoundingIncrement } from './format'
+import { isCurrencyCode, resolveConfig } from './locale'
+import { normalizeExponentNotation, siPrefixExponent } from './notation'
+
+type Phase = 'before' | 'integer' | 'fraction' | 'after'
+
+// Exponents written directly after the digits: e+6, e-3, ×10⁶, x10^-3
+const EXPONENT_PATTERN = /^(?:[eE][+-]?\d+|\s?[×x·]\s?10(?:[⁺⁻]?[⁰¹²³⁴⁵⁶⁷⁸⁹]+|\^[+-]?\d+))/
+
+/**
+ * Read the whole character at an offset, including digits outside the Basic Multilingual Plane
+ */
+function characterAt(text: string, offset: number): string {
+  const codePoint = text.codePointAt(offset)
+  return codePoint === undefined ? '' : String.fromCodePoint(codePoint)
+}
+
+/**
+ * Describe a parse error for display in form validation messages
+ */
+function createParseError(reason: ParseErrorReason, text: string, offset: number, detail: string = ''): ParseError {
+  const character = characterAt(text, offset)
+  const at = `at position ${offset}`
+  const messages: Record<ParseErrorReason, string> = {
+    empty: 'No number entered',
+    noDigits: `No digits found ${at}`,
+    unexpectedCharacter: character ? `Unexpected character '${character}' ${at}` : `Unexpected end of input ${at}`,
+    misplacedGroupSeparator: `Misplaced group separator '${character}' ${at}`,
+    multipleDecimals: `Second decimal character '${character}' ${at}`,
+    outOfRange: `Value is out of range (${detail}) ${at}`,
+    tooManyDecimals: `Too many decimal places (at most ${detail}) ${at}`,
+  }
+
+  return { reason, offset, character, message: messages[reason] }
+}
+
+/**
+ * Parse a formatted number, failing on anything the configuration does not account for
+ * Unlike parseNumber, which reads "12abc34" as 1234, it is an error at offset 2
+ */
+export function parseNumberStrict({ value, config = {} }: ParseNumberOptions): StrictParseResult {
+  const mergedConfig: NumbersConfig = resolveConfig(config)
+  const text = String(value)
+
+  // Specialized types have their own grammar, such as phone numbers and times
+  if (mergedConfig.isSpecializedType) {
+    const decimal = toDecimal(parseNumber({ value: text, config }))
+    return decimal ? { ok: true, value: decimalToNumber(decimal), exact: decimalToString(decimal) } : { ok: true, value: 0, exact: '0' }
+  }
+
+  const fail = (reason: ParseErrorReason, offset: number, detail?: string): StrictParseResult =>
+    ({ ok: false, error: createParseError(reason, text, offset, detail) })
+
+  let start = 0
+  let end = text.length
+  while (start < end && /\s/.test(text.charAt(start))) {
+    start++
+  }
+  while (end > start && /\s/.test(text.charAt(end - 1))) {
+    end--
+  }
+  if (start === end) {
+    return fail('empty', start)
+  }
+
+  // Accounting brackets have to wrap the whole value
+  let negative = false
+  const brackets = mergedConfig.negativeBracketsTypeOnBlur?.split(',') ?? []
+  if (brackets.length === 2 && brackets[0] && text.startsWith(brackets[0], start)) {
+    if (end - start < brackets[0].length + brackets[1].length || !text.endsWith(brackets[1], end)) {
+      return fail('unexpectedCharacter', end)
+    }
+    negative = true
+    start += brackets[0].length
+    end -= brackets[1].length
+  }
+
+  const symbols = resolveFormatSymbols(mergedConfig)
+  const unique = (values: string[]): string[] => [...new Set(values.filter(Boolean))].sort((a, b) => b.length - a.length)
+  const code = mergedConfig.currencySymbol ?? ''
+  const currencyTexts = isCurrencyCode(code) ? listCurrencyTexts(code, mergedConfig.locale || 'en') : []
+  const currencies = unique([code, symbols.currency, ...currencyTexts].flatMap(symbol => [symbol, symbol.trim()]))
+  const suffixes = unique([mergedConfig.suffixText ?? '', (mergedConfig.suffixText ?? '').trim()])
+  const compactSpellings = mergedConfig.useCompactNotation ? compactSuffixSpellings(resolveCompactSuffixes(mergedConfig)) : []
+  const decimals = unique([symbols.decimal, mergedConfig.decimalCharacterAlternative ?? ''])
+
+  let phase: Phase = 'before'
+  let integer = ''
+  let fraction = ''
+  let firstDigit = -1
+  let decimalEnd = -1 // Offset of the first fraction digit
+  let sign = ''
+  let currencySeen = false
+  let suffixSeen = false
+  let scaled = false // Exponent, compact suffix or SI prefix
+  let shift = 0
+  let exponentOffset = -1
+  const groups: { offset: number, digits: number }[] = [] // Each group separator with the digits after it
+  let leadingDigits = 0
+
+  let index = start
+  const match = (candidates: string[]): string => candidates.find(token => index + token.length <= end && text.startsWith(token, index)) ?? ''
+
+  while (index < end) {
+    const char = characterAt(text, index)
+
+    // Digits of any script, separators and exponents while reading the number
+    if (isDecimalDigit(char)) {
+      if (phase === 'after') {
+        return fail('unexpectedCharacter', index)
+      }
+      if (phase === 'before') {
+        phase = 'integer'
+        firstDigit = index
+      }
+      if (phase === 'integer') {
+        integer += digitValue(char)
+        if (groups.length > 0) {
+          groups[groups.length - 1].digits++
+        }
+        else {
+          leadingDigits++
+        }
+      }
+      else {
+        fraction += digitValue(char)
+      }
+      index += char.length
+      continue
+    }
+
+    const decimal = phase === 'after' ? '' : match(decimals)
+    if (decimal) {
+      if (phase === 'fraction') {
+        return fail('multipleDecimals', index)
+      }
+      if (phase === 'before') {
+        firstDigit = index
+      }
+      phase = 'fraction'
+      index += decimal.length
+      decimalEnd = index
+      continue
+    }
+
+    const separator = match([symbols.group])
+    const spacing = /^\s+$/.test(separator) || /\s/.test(char)
+    if (separator && phase === 'integer' && isDecimalDigit(characterAt(text, index + separator.length))) {
+      groups.push({ offset: index, digits: 0 })
+      index += separator.length
+      continue
+    }
+    if (separator && !spacing && phase !== 'after') {
+      return fail('misplacedGroupSeparator', index)
+    }
+
+    if (phase === 'integer' || phase === 'fraction') {
+      const exponent = text.slice(index, end).match(EXPONENT_PATTERN)?.[0]
+      if (exponent && !scaled) {
+        shift += Number(normalizeExponentNotation(`1${exponent}`).replace(/^1e/, ''))
+        exponentOffset = index
+        scaled = true
+        index += exponent.length
+      }
+      phase = 'after'
+      continue
+    }
+
+    // Signs, affixes and spacing around the number
+    if (spacing) {
+      index++
+      continue
+    }
+
+    const minus = match(unique([symbols.minusSign, '-']))
+    const plus = minus ? '' : match(unique([symbols.plusSign, '+']))
+    if (minus || plus) {
+      if (sign || negative) {
+        return fail('unexpectedCharacter', index)
+      }
+      sign = minus || plus
+      index += sign.length
+      continue
+    }
+
+    const currency = match(currencies)
+    if (currency && !currencySeen) {
+      currencySeen = true
+      index += currency.length
+      continue
+    }
+
+    if (phase === 'after') {
+      const suffix = match(suffixes)
+      if (suffix && !suffixSeen) {
+        suffixSeen = true
+        index += suffix.length
+        continue
+      }
+
+      const compact = compactSpellings.find(spelling => match([spelling.text]))
+      if (compact && !scaled) {
+        shift += compact.magnitude
+        scaled = true
+        index += compact.text.length
+        continue
+      }
+
+      const prefix = mergedConfig.siUnitPrefixes ? siPrefixExponent(char) : undefined
+      if (prefix !== undefined && !scaled && !suffixSeen) {
+        shift += prefix
+        scaled = true
+        index++
+        continue
+      }
+    }
+
+    return fail('unexpectedCharacter', index)
+  }
+
+  if (!integer && !fraction) {
+    return fail('noDigits', firstDigit >= 0 ? firstDigit : start)
+  }
+
+  // Groups must follow the grouping the formatter writes, counted from the decimal point
+  if (groups.length > 0) {
+    const grouping = symbols.grouping ?? [3]
+    const sizeAt = (index: number): number => grouping[Math.min(index, grouping.length - 1)]
+    const misplaced = [...groups].reverse().find((group, index) => group.digits !== sizeAt(index))
+    if (misplaced) {
+      return fail('misplacedGroupSeparator', misplaced.offset)
+    }
+    if (leadingDigits > sizeAt(groups.length)) {
+      return fail('misplacedGroupSeparator', groups[0].offset)
+    }
+  }
+
+  // Significant digits allow any number of decimals, unless the decimal places keep fewer
+  const significant = mergedConfig.minimumSignificantDigits != null || mergedConfig.maximumSignificantDigits != null
+  const decimalPlaces = Math.max(mergedConfig.decimalPlaces ?? 2, resolveRoundingIncrement(mergedConfig)?.scale ?? 0)
+  if (!scaled && fraction.length > decimalPlaces && (!significant || mergedConfig.roundingPriority === 'lessPrecision')) {
+    return fail('tooManyDecimals', decimalEnd + decimalPlaces, String(decimalPlaces))
+  }
+
+  // Exponents past the limit would build huge values, so they are out of range whatever the limits
+  if (!(Math.abs(shift) <= MAX_DECIMAL_EXPONENT)) {
+    return fail('outOfRange', exponentOffset, `exponents -${MAX_DECIMAL_EXPONENT} to ${MAX_DECIMAL_EXPONENT}`)
+  }
+
+  let result: DecimalValue = shiftDecimal(parseDecimal(`${integer || '0'}${fraction ? `.${fraction}` : ''}`)!, shift)
+  if (negative || (sign && sign !== '+' && sign !== symbols.plusSign)) {
+    result = negateDecimal(result)
+  }
+
+  // Range limits from the configuration
+  if (mergedConfig.overrideMinMaxLimits !== 'ignore') {
+    const minimum = mergedConfig.minimumValue ? toDecimal(mergedConfig.minimumValue) : null
+    const maximum = mergedConfig.maximumValue ? toDecimal(mergedConfig.maximumValue) : null
+    if ((minimum && compareDecimal(result, minimum) < 0) || (maximum && compareDecimal(result, maximum) > 0)) {
+      return fail('outOfRange', firstDigit, `${mergedConfig.minimumValue ?? '-∞'} to ${mergedConfig.maximumValue ?? '∞'}`)
+    }
+  }
+
+  return { ok: true, value: decimalToNumber(result), exact: decimalToString(result) }
+}
@@ -1,3 +1,6 @@
+import type { formatPatterns } from './format-patterns'
+import type { Money } from './money'
+
 export interface NumbersConfig {
   verbose?: boolean
 
@@ -6,9 +9,12 @@ export interface NumbersConfig {
   decimalCharacter?: string
   decimalCharacterAlternative?: string | null
   digitGroupSeparator?: string
-  digitGroupSpacing?: string | number
+  digitGroupSpacing?: string | number | number[] // Digits per group, or group sizes from the decimal point with the last repeating ([3, 2] for 1,23,45,678)
+  minimumGroupingDigits?: number // 2 leaves four-digit numbers ungrouped (1234, 12.345)
   currencySymbol?: string
   currencySymbolPlacement?: 'p' | 's' // prefix or suffix
+  currencyDisplay?: CurrencyDisplay | null // How a currency code in currencySymbol is written; null writes it as is, or as the locale's symbol
+  currencySpacing?: string | null // Text between the currency and the number; null spaces the way the locale does
 
   // Number constraints
   minimumValue?: string
@@ -17,6 +23,9 @@ export interface NumbersConfig {
   // Decimal behavior
   allowDecimalPadding?: boolean | 'floats'
   alwaysAllowDecimalCharacter?: boolean
+  minimumSignificantDigits?: number | null // Pads with zeros up to this many significant digits
+  maximumSignificantDigits?: number | null // Rounds to this many significant digits instead of decimalPlaces
+  roundingPriority?: 'auto' | 'morePrecision' | 'lessPrecision' // Which limit wins when significant digits are set: significant digits, or the one keeping more or fewer digits
 
   // Display and interaction
   caretPositionOnFocus?: 'start' | 'end' | 'decimalChar' | null
@@ -40,6 +49,11 @@ export interface NumbersConfig {
   modifyValueOnUpDownArrow?: boolean
   upDownStep?: 'progressive' | string | number
   roundingMethod?: RoundingMethod
+  roundingIncrement?: number | string | null // Round to a multiple of this (0.05, 0.25, 50, 1000) in the roundingMethod direction
+  cashRounding?: boolean // Round ISO currency codes to their smallest cash amount (CHF 0.05, SEK 1)
+  fractionMode?: 'mixed' | 'improper' | null // Write values as fractions: 3 1/4 or 13/4
+  maximumDenominator?: number // Largest denominator of the closest fraction in fractionMode (16 writes 3.14159 as 3 1/7)
+  fixedDenominator?: number | null // Round to this denominator in fractionMode instead, unreduced (8 writes 0.3 as 2/8)
   isCancellable?: boolean
   negativePositiveSignBehavior?: boolean
   keyboardShortcuts?: KeyboardShortcuts | null
@@ -65,6 +79,10 @@ export interface NumbersConfig {
   formatOnPageLoad?: boolean
   unitConversion?: boolean
 
+  // Format patterns
+  pattern?: PatternName | null // Registered or predefined pattern the options are read from; options set here win
+  formatPattern?: string | null // Pattern the value is written with and typed input is masked with, or the name of one
+
   // Styling
   styleRules?: StyleRulesOption | null
   valuesToStrings?: Record<string, string> | null
@@ -76,7 +94,8 @@ export interface NumbersConfig {
   // Localization
   locale?: string
   useGrouping?: boolean
-  numberingSystem?: 'latn' | 'arab' | 'deva' | null
+  numberingSystem?: NumberingSystem | null
+  percentSign?: string
 
   // Persistence
   persistenceMethod?: 'sessionStorage' | 'localStorage' | 'cookie' | null
@@ -85,21 +104,54 @@ export interface NumbersConfig {
   // Scientific notation
   useScientificNotation?: boolean
   scientificNotationThreshold?: number
+  scientificNotationSmallThreshold?: number // Non-zero values at or below this magnitude also switch
+  scientificMantissaDigits?: number | null // Mantissa fraction digits, null follows decimalPlaces
+  exponentDisplay?: 'e' | 'superscript' // 1.23e+6 or 1.23×10⁶
+
+  // Engineering notation (exponents in multiples of three)
+  engineeringNotation?: boolean
+  engineeringNotationThreshold?: number
+  engineeringNotationSmallThreshold?: number
+  engineeringMantissaDigits?: number | null
+
+  // SI prefixes (1.5k, 2.2µ, 3.3 MHz)
+  siUnitPrefixes?: boolean
+  siUnitPrefixThreshold?: number
+  siUnitPrefixSmallThreshold?: number
+  siUnitPrefixMantissaDigits?: number | null
+
+  // Compact notation
+  useCompactNotation?: boolean
+  compactDisplay?: 'short' | 'long'
+  compactNotationThreshold?: number
+  compactDecimalPlaces?: number
+  compactSuffixes?: CompactSuffix[] | null
 
   // Multiple currencies
   currencies?: Record<string, CurrencyConfig> | null
   activeCurrency?: string
+  convertOnCurrencyChange?: boolean // Convert the value with an exchange rate when setCurrency switches currency
+  exchangeRateProvider?: ExchangeRateProvider | null // Rates for convertOnCurrencyChange; null uses the default provider
 
   // Specialized formats
   isSpecializedType?: SpecializedNumberType
   specializedOptions?: SpecializedNumberOptions
 }
 
+export interface CompactSuffix {
+  magnitude: number // Power of ten the suffix stands for, e.g. 3 for thousands
+  short: string
+  long: string
+  aliases?: string[] // Extra spellings accepted when parsing
+}
+
 export interface StyleRulesOption {
   positive?: string | null
   negative?: string | null
   ranges?: StyleRuleRange[]
   userDefined?: StyleRuleCallback[]
+  pattern?: string | null // Format pattern whose colour sections ([Red], [Blue]) add a class for the value
+  colorClasses?: Record<string, string> // Classes for pattern colours by name, numbers-red and so on by default
 }
 
 export interface StyleRuleRange {
@@ -113,22 +165,49 @@ export interface StyleRuleCallback {
   classes: string | string[]
 }
 
+export type NumberingSystem =
+  | 'latn' // 0123456789
+  | 'arab' // ٠١٢٣٤٥٦٧٨٩ Arabic-Indic
+  | 'arabext' // ۰۱۲۳۴۵۶۷۸۹ Extended Arabic-Indic (Persian, Urdu)
+  | 'beng' // ০১২৩৪৫৬৭৮৯ Bengali
+  | 'deva' // ०१२३४५६७८९ Devanagari
+  | 'fullwide' // ０１２３４５６７８９ Full-width
+  | 'gujr' // ૦૧૨૩૪૫૬૭૮૯ Gujarati
+  | 'guru' // ੦੧੨੩੪੫੬੭੮੯ Gurmukhi
+  | 'hanidec' // 〇一二三四五六七八九 Chinese decimal
+  | 'khmr' // ០១២៣៤៥៦៧៨៩ Khmer
+  | 'knda' // ೦೧೨೩೪೫೬೭೮೯ Kannada
+  | 'laoo' // ໐໑໒໓໔໕໖໗໘໙ Lao
+  | 'mlym' // ൦൧൨൩൪൫൬൭൮൯ Malayalam
+  | 'mong' // ᠐᠑᠒᠓᠔᠕᠖᠗᠘᠙ Mongolian
+  | 'mymr' // ၀၁၂၃၄၅၆၇၈၉ Myanmar
+  | 'orya' // ୦୧୨୩୪୫୬୭୮୯ Odia
+  | 'tamldec' // ௦௧௨௩௪௫௬௭௮௯ Tamil
+  | 'telu' // ౦౧౨౩౪౫౬౭౮౯ Telugu
+  | 'thai' // ๐๑๒๓๔๕๖๗๘๙ Thai
+  | 'tibt' // ༠༡༢༣༤༥༦༧༨༩ Tibetan
+
 export type RoundingMethod =
-  | 'S' // Round-Half-Up Symmetric (default)
-  | 'A' // Round-Half-Up Asymmetric
-  | 's' // Round-Half-Down Symmetric
-  | 'a' // Round-Half-Down Asymmetric
-  | 'B' // Round-Half-Even "Bankers Rounding"
-  | 'U' // Round Up "Round-Away-From-Zero"
-  | 'D' // Round Down "Round-Toward-Zero" - same as truncate
-  | 'C' // Round to Ceiling "Toward Positive Infinity"
-  | 'F' // Round to Floor "Toward Negative Infinity"
-  | 'N05' // Rounds to the nearest .05
-  | 'U05' // Rounds up to next .05
-  | 'D05' // Rounds down to next .05
+  | 'S' // Round-Half-Up Symmetric (default): nearest, ties away from zero (1.5 -> 2, -1.5 -> -2)
+  | 'A' // Round-Half-Up Asymmetric: nearest, ties toward positive infinity (1.5 -> 2, -1.5 -> -1)
+  | 's' // Round-Half-Down Symmetric: nearest, ties toward zero (1.5 -> 1, -1.5 -> -1)
+  | 'a' // Round-Half-Down Asymmetric: nearest, ties toward negative infinity (1.5 -> 1, -1.5 -> -2)
+  | 'B' // Round-Half-Even "Bankers Rounding": nearest, ties to the even neighbour (2.5 -> 2, 3.5 -> 4)
+  | 'U' // Round Up "Round-Away-From-Zero" (1.1 -> 2, -1.1 -> -2)
+  | 'D' // Round Down "Round-Toward-Zero" - same as truncate (1.9 -> 1, -1.9 -> -1)
+  | 'C' // Round to Ceiling "Toward Positive Infinity" (1.1 -> 2, -1.9 -> -1)
+  | 'F' // Round to Floor "Toward Negative Infinity" (1.9 -> 1, -1.1 -> -2)
+  | 'N05' // Rounds to the nearest .05, ties away from zero
+  | 'U05' // Rounds up to the next .05, away from zero
+  | 'D05' // Rounds down to the next .05, toward zero
+  | 'halfAwayFromZero' // Same as S
+  | 'halfTowardZero' // Same as s
+  | 'halfCeiling' // Same as A
+  | 'halfFloor' // Same as a
+  | 'halfOdd' // Nearest, ties to the odd neighbour (2.5 -> 3, 3.5 -> 3)
 
 export interface FormatNumberOptions {
-  value: number | string
+  value: number | string | bigint
   config?: NumbersConfig
 }
 
@@ -137,13 +216,213 @@ export interface ParseNumberOptions {
   config?: NumbersConfig
 }
 
+export type NumberFormatPartType =
+  | 'integer' // Integer digits
+  | 'group' // Digit group separator
+  | 'decimal' // Decimal character
+  | 'fraction' // Fraction digits
+  | 'numerator' // Numerator of a fraction such as 1/4
+  | 'denominator' // Denominator of a fraction such as 1/4
+  | 'currency' // Currency symbol or code
+  | 'sign' // Positive or negative sign
+  | 'suffix' // Suffix text, units and compact or SI suffixes
+  | 'literal' // Brackets, percent signs, spacing and other fixed text
+  | 'exponent' // Exponent such as "e+6" or "×10⁶"
+
+/**
+ * Typed segment of a formatted number, like Intl.NumberFormat formatToParts
+ */
+export interface NumberFormatPart {
+  type: NumberFormatPartType
+  value: string
+}
+
+/**
+ * One element of a format pattern section, with its offset in the pattern
+ */
+export type PatternToken = { position: number } & (
+  | { type: 'digit', placeholder: '0' | '#' | '?' | '@', role: 'integer' | 'fraction' | 'exponent' | 'numerator' | 'denominator' } // 0 pads, # drops, ? pads with a space, @ is a significant digit
+  | { type: 'decimal' } // Decimal point, written with the decimal character
+  | { type: 'group' } // Comma between integer digits
+  | { type: 'scale' } // Comma after the last digit: divides by 1,000
+  | { type: 'slash', denominator: number | null } // Fraction bar, with the fixed denominator of ?/8
+  | { type: 'exponent', upper: boolean, showPlus: boolean } // E+ always writes the exponent sign, E- only when negative
+  | { type: 'percent' } // Multiplies by 100
+  | { type: 'permille' } // Multiplies by 1,000
+  | { type: 'currency', symbol: string | null } // null for $ and ¤, written with the configured symbol
+  | { type: 'plus' } // + sign, a minus sign for negative values
+  | { type: 'minus' } // - sign
+  | { type: 'literal', value: string } // Quoted or escaped text and other characters
+  | { type: 'fill', char: string } // *x repeats x to fill the width
+  | { type: 'space', char: string } // _x leaves a space as wide as x
+  | { type: 'text' } // @ in the text section, the text value itself
+  | { type: 'general' } // General, the value as it is
+)
+
+/**
+ * Digit layout of a pattern section
+ */
+export interface NumberPattern {
+  integer: string // Integer placeholders such as ##0
+  fraction: string // Fraction placeholders such as 00#
+  exponent: string // Exponent digit placeholders such as 00, empty without an exponent
+  decimalPoint: boolean
+  grouping: number[] | null // Group sizes from the decimal point outwards, null without grouping
+  scale: number // Power of ten applied first: 2 per percent sign, 3 per mille, -3 per scaling comma
+  significantDigits: { minimum: number, maximum: number } | null // From @ placeholders
+  rational: { numerator: string, denominator: string, fixedDenominator: number | null } | null // From # ?/? and # ?/8
+}
+
+/**
+ * One of the semicolon separated sections of a pattern: positive, negative, zero and text
+ */
+export interface PatternSection {
+  source: string
+  position: number // Offset of the section in the pattern
+  tokens: PatternToken[]
+  number: NumberPattern | null // null when the section writes no digits
+  condition: PatternCondition | null // [>=1000] picks the section for the values it admits
+  color: string | null // Lowercase colour name from [Red] or [Color10]
+}
+
+/**
+ * Format pattern written for a configuration by configToPattern
+ */
+export interface ConfigToPatternResult {
+  pattern: string
+  name: string | null // Name of the same pattern in formatPatterns
+  lossy: (keyof NumbersConfig)[] // Options the pattern cannot express, lost on the way back
+}
+
+/**
+ * Part of a format pattern a configuration cannot express
+ */
+export type PatternFeature =
+  | 'condition' // [>=1000] and other section conditions
+  | 'color' // [Red] and other section colours
+  | 'negativeSection' // A negative section that is not the positive one with a sign or brackets
+  | 'zeroSection'
+  | 'textSection'
+  | 'literal' // Text before the number, between its digits (000-0000) or after the currency symbol
+  | 'placeholders' // Padding the options have no equivalent for: 000, #.##, 0.0#, ?
+  | 'exponent'
+  | 'scale' // Percent, per mille and scaling commas, which multiply the value
+  | 'fill' // * fill and _ space characters
+
+/**
+ * Configuration read from a format pattern by patternToConfig
+ */
+export interface PatternToConfigResult {
+  config: NumbersConfig
+  lossy: PatternFeature[] // Parts of the pattern the configuration cannot express
+}
+
+/**
+ * Condition of a pattern section such as [>=1000] or [<0]
+ */
+export interface PatternCondition {
+  operator: '<' | '<=' | '=' | '<>' | '>' | '>='
+  value: number
+}
+
+/**
+ * Pattern output with the colour of the section that wrote it
+ */
+export interface PatternFormatResult {
+  value: string
+  parts: NumberFormatPart[]
+  section: number // Index of the section used
+  color: string | null // CSS colour of the section, null without a colour code
+  className: string | null // Class for the colour, such as numbers-red
+}
+
+/**
+ * Format pattern compiled once by compilePattern and reused for every value
+ */
+export interface CompiledPattern {
+  pattern: string
+  sections: PatternSection[]
+  format: (value: number | string | bigint, config?: NumbersConfig, width?: number) => string
+  formatToParts: (value: number | string | bigint, config?: NumbersConfig, width?: number) => NumberFormatPart[]
+  formatWithColor: (value: number | string | bigint, config?: NumbersConfig, width?: number) => PatternFormatResult
+  mask: (input: string, caret?: number, config?: NumbersConfig) => PatternMaskResult
+}
+
+/**
+ * Partly typed input rewritten by CompiledPattern.mask
+ */
+export interface PatternMaskResult {
+  value: string
+  caret: number // Before as many digits as the caret was before in the input
+  start: number // Offset of the number, after the literals in front of it
+  end: number // Offset after the number, before the literals behind it
+}
+
+/**
+ * Names of registered patterns, for type-checked pattern names; add yours by declaration merging:
+ * declare module 'ts-numbers' { interface PatternRegistry { invoice: true } }
+ */
+// eslint-disable-next-line ts/no-empty-object-type
+export interface PatternRegistry {}
+
+/**
+ * Name of a predefined or registered pattern; any string until PatternRegistry declares names
+ */
+export type PatternName = keyof typeof formatPatterns | ([keyof PatternRegistry] extends [never] ? string & {} : keyof PatternRegistry)
+
+/**
+ * Named format pattern, with the options applied along with it
+ */
+export interface RegisteredPattern {
+  name: string
+  pattern: string
+  config: NumbersConfig // Options over the ones read from the pattern, such as a locale or rounding method
+  predefined: boolean // One of formatPatterns
+}
+
+export type ParseErrorReason =
+  | 'empty' // Nothing but whitespace
+  | 'noDigits' // Signs or symbols without any digits
+  | 'unexpectedCharacter' // A character that none of the options account for
+  | 'misplacedGroupSeparator' // A group separator outside the integer digits or in the wrong place
+  | 'multipleDecimals' // A second decimal character
+  | 'outOfRange' // Below minimumValue or above maximumValue, or an exponent past ±1000
+  | 'tooManyDecimals' // More fraction digits than decimalPlaces
+
+/**
+ * Why a strict parse failed and where
+ */
+export interface ParseError {
+  reason: ParseErrorReason
+  offset: number // Index of the offending character in the input
+  character: string // The offending character, empty at the end of the input
+  message: string
+}
+
+/**
+ * Result of parseNumberStrict: the value, or the first error found
+ */
+export type StrictParseResult =
+  | { ok: true, value: number, exact: string }
+  | { ok: false, error: ParseError }
+
+/**
+ * Exact decimal value: (negative ? -1 : 1) * coefficient / 10^scale
+ */
+export interface DecimalValue {
+  negative: boolean
+  coefficient: bigint
+  scale: number
+}
+
 export interface NumbersInstance {
   getElement: () => HTMLElement
   getConfig: () => NumbersConfig
-  set: (value: number | string) => NumbersInstance
+  set: (value: number | string | Money) => NumbersInstance
   get: () => string
   getLocalized: () => string
   getNumber: () => number
+  getMoney: () => Money | null
   update: (config: Partial<NumbersConfig>) => NumbersInstance
   clear: () => NumbersInstance
   remove: () => void
@@ -165,6 +444,107 @@ export interface KeyboardShortcuts {
   custom?: Record<string, () => void> | null
 }
 
+/**
+ * Currency in the currency registry, an ISO 4217 one or one added with registerCurrency
+ */
+export interface CurrencyData {
+  code: string // Three-letter code such as USD
+  name: string // English name
+  minorUnits: number // Decimals of the minor unit: 2 for cents, 0 for yen, 3 for fils
+  cashIncrement: string | null // Smallest cash amount when coins stop above the minor unit (CHF 0.05, SEK 1)
+  symbol: string // Symbol telling the dollars apart: US$, CA$ and A$ in most locales
+  narrowSymbol: string // Symbol as written at home: $, kr
+}
+
+/**
+ * Currency as a locale writes it, with where its symbol goes
+ */
+export interface LocaleCurrencyData extends CurrencyData {
+  placement: 'p' | 's'
+  spacing: string // Text between the symbol and the number, such as a no-break space
+}
+
+/**
+ * Form a currency code is written in: US$, $, USD or US dollars in English
+ */
+export type CurrencyDisplay = 'symbol' | 'narrowSymbol' | 'code' | 'name'
+
+/**
+ * Currency written in one display form, with where it goes and the text between it and the number
+ */
+export interface CurrencyDisplayData {
+  text: string
+  placement: 'p' | 's'
+  spacing: string
+}
+
+/**
+ * Options for allocate and split
+ */
+export interface AllocateOptions {
+  cashRounding?: boolean // Hand out whole cash amounts (CHF 0.05, SEK 1), the odd minor units going to the first share
+}
+
+/**
+ * Rate between two currencies and where it came from
+ */
+export interface ExchangeRate {
+  from: string
+  to: string
+  rate: string // Units of to for one unit of from, as an exact decimal string
+  source: string // Who published the rate, such as ECB
+  timestamp: string // Day (2026-10-16) or time the rate is from
+}
+
+/**
+ * Source of exchange rates; rates are read synchronously, so remote ones are fetched ahead of time
+ */
+export interface ExchangeRateProvider {
+  getRate: (from: string, to: string, date?: string | null) => ExchangeRate | null // date as YYYY-MM-DD, null for the latest
+}
+
+/**
+ * Rates against a base currency (1 base is rates[code] of a code), for one day or keyed by day (2026-10-16)
+ */
+export interface ExchangeRateTable {
+  base: string
+  rates: Record<string, number | string> | Record<string, Record<string, number | string>>
+  source?: string
+  timestamp?: string // When undated rates are from
+}
+
+export interface ConvertOptions {
+  date?: Date | string | null // Rates of this day, or the latest before it
+  rounding?: RoundingMethod // How the converted amount is rounded to the minor unit
+  provider?: ExchangeRateProvider | null // null uses the default provider
+}
+
+/**
+ * Converted amount and the rate it was converted with
+ */
+export interface ConversionResult {
+  amount: Money
+  rate: ExchangeRate
+}
+
+/**
+ * Detail of a numbers:change event; exchangeRate is set when a currency switch converted the value
+ */
+export interface NumbersChangeDetail {
+  value: number | string
+  formatted: string
+  exchangeRate?: ExchangeRate
+}
+
+/**
+ * Detail of a numbers:conversionFailed event, fired when setCurrency has no rate and the currency stays
+ */
+export interface ConversionFailedDetail {
+  from: string
+  to: string
+  error: Error
+}
+
 export interface CurrencyConfig {
   symbol: string
   placement: 'p' | 's'
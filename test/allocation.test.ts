@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test'
+import { allocate, CurrencyMismatchError, formatNumber, Money, split } from '../src'
+
+function amounts(shares: Money[]): string[] {
+  return shares.map(share => share.toDecimalString())
+}
+
+describe('allocate', () => {
+  it('divides by ratios into amounts that add up to the total', () => {
+    expect(amounts(allocate(100, [70, 20, 10], 'USD'))).toEqual(['70.00', '20.00', '10.00'])
+    expect(amounts(allocate('0.05', [3, 7], 'USD'))).toEqual(['0.02', '0.03'])
+    expect(amounts(allocate(Money.of('100', 'EUR'), ['0.5', '0.25', '0.25']))).toEqual(['50.00', '25.00', '25.00'])
+    expect(amounts(allocate(100, [1, 1, 1], 'USD'))).toEqual(['33.34', '33.33', '33.33'])
+  })
+
+  it('gives the left over units to the largest fractional parts', () => {
+    // 10.00 by 1/2/3 is 1.666, 3.333 and 5.000: the penny goes to the first share
+    expect(amounts(allocate(10, [1, 2, 3], 'USD'))).toEqual(['1.67', '3.33', '5.00'])
+    expect(amounts(allocate('0.10', [1, 1, 1], 'USD'))).toEqual(['0.04', '0.03', '0.03'])
+    expect(amounts(allocate(-10, [1, 2, 3], 'USD'))).toEqual(['-1.67', '-3.33', '-5.00'])
+    expect(amounts(allocate(5, [0, 1], 'USD'))).toEqual(['0.00', '5.00'])
+  })
+
+  it('respects the minor units and cash increments of the currency', () => {
+    expect(amounts(allocate(100, [1, 1, 1], 'JPY'))).toEqual(['34', '33', '33'])
+    expect(amounts(allocate('1.000', [1, 1, 1], 'KWD'))).toEqual(['0.334', '0.333', '0.333'])
+    expect(amounts(allocate(100, [1, 1, 1], 'CHF', { cashRounding: true }))).toEqual(['33.35', '33.35', '33.30'])
+    expect(amounts(allocate('100.02', [1, 1], 'CHF', { cashRounding: true }))).toEqual(['50.02', '50.00'])
+  })
+
+  it('rejects ratios and currencies it cannot use', () => {
+    expect(() => allocate(100, [], 'USD')).toThrow('Allocation needs at least one ratio')
+    expect(() => allocate(100, [0, 0], 'USD')).toThrow('Allocation ratios must add up to more than zero')
+    expect(() => allocate(100, [1, -1], 'USD')).toThrow('Allocation ratios are numbers of zero or more: -1')
+    expect(() => allocate(100, [1])).toThrow('Amounts need a currency to be allocated: 100')
+    expect(() => allocate(Money.of(1, 'USD'), [1], 'EUR')).toThrow(CurrencyMismatchError)
+  })
+})
+
+describe('split', () => {
+  it('divides into equal shares that add up to the total', () => {
+    const shares = split(Money.of(100, 'USD'), 3)
+    expect(amounts(shares)).toEqual(['33.34', '33.33', '33.33'])
+    expect(shares.reduce((total, share) => total.add(share)).equals(Money.of(100, 'USD'))).toBe(true)
+    expect(shares.map(share => formatNumber({ value: share.toDecimalString(), config: { locale: undefined, currencySymbol: '$' } })))
+      .toEqual(['$33.34', '$33.33', '$33.33'])
+    expect(() => split(100, 0, 'USD')).toThrow('Amounts split into a whole number of parts: 0')
+  })
+})
@@ -0,0 +1,103 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { applyFormatPattern, applyPredefinedPattern, formatNumber, parseNumber } from '../src'
+
+describe('Compact Notation', () => {
+  describe('Formatting with the built-in suffix table', () => {
+    const config: NumbersConfig = {
+      useCompactNotation: true,
+      locale: undefined,
+    }
+
+    it('scales values to the largest fitting unit', () => {
+      expect(formatNumber({ value: 1234, config })).toBe('1.2K')
+      expect(formatNumber({ value: 3400000, config })).toBe('3.4M')
+      expect(formatNumber({ value: 5000000000, config })).toBe('5B')
+      expect(formatNumber({ value: 15000000000000, config })).toBe('15T')
+      expect(formatNumber({ value: -1234567, config })).toBe('-1.2M')
+    })
+
+    it('leaves values below the threshold alone', () => {
+      expect(formatNumber({ value: 999, config })).toBe('999.00')
+      expect(formatNumber({ value: 5000, config: { ...config, compactNotationThreshold: 10000 } })).toBe('5,000.00')
+    })
+
+    it('moves to the next unit when rounding carries over', () => {
+      expect(formatNumber({ value: 999950, config })).toBe('1M')
+      expect(formatNumber({ value: 999949, config })).toBe('999.9K')
+    })
+
+    it('supports long form, decimals and rounding methods', () => {
+      expect(formatNumber({ value: 1234, config: { ...config, compactDisplay: 'long' } })).toBe('1.2 thousand')
+      expect(formatNumber({ value: 1234567, config: { ...config, compactDecimalPlaces: 2 } })).toBe('1.23M')
+      expect(formatNumber({ value: 1201, config: { ...config, roundingMethod: 'C' } })).toBe('1.3K')
+    })
+
+    it('supports custom suffix tables', () => {
+      const custom: NumbersConfig = {
+        useCompactNotation: true,
+        compactSuffixes: [
+          { magnitude: 3, short: 'k', long: 'thousand' },
+          { magnitude: 5, short: 'L', long: 'lakh' },
+          { magnitude: 7, short: 'Cr', long: 'crore' },
+        ],
+      }
+
+      expect(formatNumber({ value: 1234, config: custom })).toBe('1.2k')
+      expect(formatNumber({ value: 250000, config: custom })).toBe('2.5L')
+      expect(formatNumber({ value: 31000000, config: { ...custom, compactDisplay: 'long' } })).toBe('3.1 crore')
+    })
+
+    it('combines with currency symbols and suffix text', () => {
+      expect(formatNumber({ value: 1234, config: { ...config, currencySymbol: '$' } })).toBe('$1.2K')
+      expect(formatNumber({ value: 1234, config: { ...config, suffixText: ' views' } })).toBe('1.2K views')
+    })
+  })
+
+  describe('Locale-aware formatting', () => {
+    it('uses Intl compact notation for the configured locale', () => {
+      expect(formatNumber({ value: 1234, config: { useCompactNotation: true, locale: 'en-US' } })).toBe('1.2K')
+      expect(formatNumber({ value: 3400000, config: { useCompactNotation: true, locale: 'de-DE', compactDisplay: 'long' } })).toBe('3,4 Millionen')
+      expect(formatNumber({ value: 3400000, config: { useCompactNotation: true, locale: 'ja-JP' } })).toBe('340万')
+    })
+  })
+
+  describe('Parsing compact values', () => {
+    it('reads short and long suffixes back into full values', () => {
+      const config: NumbersConfig = { useCompactNotation: true }
+      expect(parseNumber({ value: '1.2K', config })).toBe(1200)
+      expect(parseNumber({ value: '-3.4M', config })).toBe(-3400000)
+      expect(parseNumber({ value: '5B', config })).toBe(5000000000)
+      expect(parseNumber({ value: '1.2 thousand', config })).toBe(1200)
+      expect(parseNumber({ value: '$1.2K', config: { ...config, currencySymbol: '$' } })).toBe(1200)
+    })
+
+    it('reads locale suffixes, including plural forms', () => {
+      expect(parseNumber({ value: '2 Millionen', config: { useCompactNotation: true, locale: 'de-DE' } })).toBe(2000000)
+      expect(parseNumber({ value: '340万', config: { useCompactNotation: true, locale: 'ja-JP' } })).toBe(3400000)
+    })
+
+    it('round-trips formatted values', () => {
+      const config: NumbersConfig = { useCompactNotation: true, compactDecimalPlaces: 2 }
+      const formatted = formatNumber({ value: 1230000, config })
+      expect(parseNumber({ value: formatted, config })).toBe(1230000)
+    })
+
+    it('ignores suffixes when compact notation is off', () => {
+      expect(parseNumber({ value: '1.2K' })).toBe(1.2)
+    })
+  })
+
+  describe('Scaling format patterns', () => {
+    it('divides by 1,000 for each trailing comma', () => {
+      expect(applyFormatPattern({ value: 1234567, pattern: '#,##0,K' })).toBe('1,235K')
+      expect(applyFormatPattern({ value: 1234567, pattern: '#,##0.0,,M' })).toBe('1.2M')
+    })
+
+    it('applies the predefined scaling patterns', () => {
+      expect(applyPredefinedPattern({ value: 1234567, patternName: 'thousands' })).toBe('1,235K')
+      expect(applyPredefinedPattern({ value: 1234567, patternName: 'millions' })).toBe('1.2M')
+      expect(applyPredefinedPattern({ value: 1234567890, patternName: 'billions' })).toBe('1.2B')
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import type { NumbersConfig } from '../src/types'
+import { afterEach, describe, expect, it } from 'bun:test'
+import { applyFormatPattern, formatNumber, getCurrencyDisplay, parseNumber, registerCurrency, unregisterCurrency } from '../src'
+
+function format(value: number, config: NumbersConfig): string {
+  return formatNumber({ value, config: { locale: undefined, ...config } })
+}
+
+afterEach(() => {
+  unregisterCurrency('XBT')
+})
+
+describe('currency display', () => {
+  it('writes a currency code as a symbol, narrow symbol, code or name', () => {
+    expect(format(1234, { currencySymbol: 'CAD', currencyDisplay: 'symbol' })).toBe('CA$1,234.00')
+    expect(format(1234, { currencySymbol: 'CAD', currencyDisplay: 'narrowSymbol' })).toBe('$1,234.00')
+    expect(format(1234, { currencySymbol: 'USD', currencyDisplay: 'code' })).toBe('USD 1,234.00')
+    expect(format(1234, { currencySymbol: 'USD', currencyDisplay: 'name' })).toBe('1,234.00 US dollars')
+    expect(format(1234, { currencySymbol: 'USD' })).toBe('USD1,234.00')
+  })
+
+  it('writes names in the plural the amount takes, where the locale puts them', () => {
+    expect(format(1, { currencySymbol: 'USD', currencyDisplay: 'name', decimalPlaces: 0 })).toBe('1 US dollar')
+    expect(format(1, { currencySymbol: 'USD', currencyDisplay: 'name' })).toBe('1.00 US dollars')
+    expect(format(-2, { currencySymbol: 'USD', currencyDisplay: 'name', decimalPlaces: 0 })).toBe('-2 US dollars')
+    expect(formatNumber({ value: 1234.5, config: { locale: 'de-DE', currencySymbol: 'EUR', currencyDisplay: 'name' } })).toBe('1.234,50 Euro')
+    expect(getCurrencyDisplay('EUR', 'de-DE', 'code')).toEqual({ text: 'EUR', placement: 's', spacing: ' ' })
+  })
+
+  it('uses the registered name and symbol where the locale has none', () => {
+    registerCurrency('XBT', { name: 'Bitcoin', minorUnits: 8, symbol: '₿' })
+    expect(format(1.5, { currencySymbol: 'XBT', currencyDisplay: 'name', decimalPlaces: 1 })).toBe('1.5 Bitcoin')
+    expect(format(1.5, { currencySymbol: 'XBT', currencyDisplay: 'narrowSymbol', decimalPlaces: 1 })).toBe('₿1.5')
+  })
+
+  it('replaces the locale spacing with currencySpacing', () => {
+    expect(format(1234, { currencySymbol: '$', currencySpacing: ' ' })).toBe('$ 1,234.00')
+    expect(format(1234, { currencySymbol: 'USD', currencyDisplay: 'code', currencySpacing: '' })).toBe('USD1,234.00')
+    expect(formatNumber({ value: 5, config: { locale: 'de-DE', currencySymbol: 'EUR', currencySpacing: '' } })).toBe('5,00€')
+  })
+
+  it('writes pattern currency signs in the display form', () => {
+    expect(applyFormatPattern({ value: 5, pattern: '¤ #,##0.00', config: { locale: undefined, currencySymbol: 'USD', currencyDisplay: 'code' } })).toBe('USD 5.00')
+  })
+
+  it('reads every display form back', () => {
+    const config: NumbersConfig = { locale: undefined, currencySymbol: 'USD', currencyDisplay: 'name' }
+    for (const value of ['1,234.00 US dollars', 'USD 1,234.00', 'US$1,234.00', '$1,234.00']) {
+      expect(parseNumber({ value, config })).toBe(1234)
+    }
+    expect(parseNumber({ value: '1 US dollar', config })).toBe(1)
+    expect(parseNumber({ value: '1.234,50 Euro', config: { locale: 'de-DE', currencySymbol: 'EUR' } })).toBe(1234.5)
+  })
+})
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { formatNumber, getCurrency, getLocaleCurrencyData, listCurrencies, Numbers, registerCurrency, unregisterCurrency } from '../src'
+import { getCashRoundingIncrement } from '../src/currencies'
+
+afterEach(() => {
+  unregisterCurrency('XBT')
+  unregisterCurrency('CHF')
+})
+
+describe('currency registry', () => {
+  it('knows the minor units, cash increments and symbols of ISO currencies', () => {
+    expect(getCurrency('JPY')).toEqual({ code: 'JPY', name: 'Japanese Yen', minorUnits: 0, cashIncrement: null, symbol: '¥', narrowSymbol: '¥' })
+    expect(getCurrency('kwd')).toMatchObject({ code: 'KWD', minorUnits: 3 })
+    expect(getCurrency('CHF')).toMatchObject({ minorUnits: 2, cashIncrement: '0.05' })
+    expect(getCurrency('CAD')).toMatchObject({ symbol: 'CA$', narrowSymbol: '$' })
+    expect(getCurrency('ABC')).toBeNull()
+    expect(listCurrencies().map(currency => currency.code)).toContain('EUR')
+  })
+
+  it('reads the names, symbols and placement of a locale', () => {
+    expect(getLocaleCurrencyData('EUR', 'de-DE')).toMatchObject({ name: 'Euro', symbol: '€', placement: 's', spacing: ' ' })
+    expect(getLocaleCurrencyData('USD', 'en-CA')).toMatchObject({ symbol: 'US$', narrowSymbol: '$', placement: 'p', spacing: '' })
+    expect(getLocaleCurrencyData('JPY', 'ja-JP')).toMatchObject({ name: '日本円', symbol: '￥', minorUnits: 0 })
+    expect(getLocaleCurrencyData('ABC', 'en')).toBeNull()
+  })
+
+  it('registers currencies of its own and changes ISO ones', () => {
+    expect(registerCurrency('xbt', { name: 'Bitcoin', minorUnits: 8, symbol: '₿' })).toEqual({
+      code: 'XBT',
+      name: 'Bitcoin',
+      minorUnits: 8,
+      cashIncrement: null,
+      symbol: '₿',
+      narrowSymbol: '₿',
+    })
+    expect(getLocaleCurrencyData('XBT', 'en')).toMatchObject({ name: 'Bitcoin', symbol: '₿', placement: 'p' })
+    expect(listCurrencies().at(-1)?.code).toBe('XBT')
+
+    registerCurrency('CHF', { cashIncrement: '0.10' })
+    expect(getCashRoundingIncrement('CHF')).toBe('0.10')
+    expect(unregisterCurrency('CHF')).toBe(true)
+    expect(getCashRoundingIncrement('CHF')).toBe('0.05')
+
+    expect(() => registerCurrency('BTC1')).toThrow('Currency codes have three letters: BTC1')
+  })
+
+  it('writes registered codes the way the locale writes the currency', () => {
+    registerCurrency('XBT', { minorUnits: 8, symbol: '₿' })
+    expect(formatNumber({ value: 1.5, config: { locale: 'en-US', currencySymbol: 'XBT' } })).toBe('₿1.50')
+    expect(formatNumber({ value: 1.5, config: { locale: 'en-US', currencySymbol: 'ABC' } })).toBe('ABC1.50')
+  })
+})
+
+describe('setCurrency with the registry', () => {
+  it('switches to currencies missing from the configuration', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, { locale: undefined })
+
+    numbers.set(1234.5)
+    numbers.setCurrency('JPY')
+    expect(numbers.getConfig()).toMatchObject({ activeCurrency: 'JPY', currencySymbol: '¥', decimalPlaces: 0 })
+    expect(element.value).toBe('¥1,235')
+
+    numbers.update({ locale: 'de-DE' })
+    numbers.setCurrency('EUR')
+    numbers.set(1234.5)
+    expect(element.value).toBe('1.234,50 €')
+
+    numbers.remove()
+  })
+})
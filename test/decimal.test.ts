@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'bun:test'
+import {
+  compareDecimal,
+  decimalToString,
+  parseDecimal,
+  roundDecimal,
+  toDecimal,
+  toExponentialDecimal,
+} from '../src/decimal'
+import { formatNumber, parseNumber, parseNumberExact, roundNumber } from '../src/format'
+import { compilePattern } from '../src/pattern-compiler'
+
+describe('Decimal Engine', () => {
+  describe('Decimal values', () => {
+    it('parses plain and exponential decimal strings exactly', () => {
+      expect(decimalToString(parseDecimal('1234.5678')!)).toBe('1234.5678')
+      expect(decimalToString(parseDecimal('-0.000123')!)).toBe('-0.000123')
+      expect(decimalToString(parseDecimal('1.5e-7')!)).toBe('0.00000015')
+      expect(decimalToString(parseDecimal('1.5E+3')!)).toBe('1500')
+      expect(decimalToString(parseDecimal('.5')!)).toBe('0.5')
+      expect(parseDecimal('1.2.3')).toBeNull()
+      expect(parseDecimal('.')).toBeNull()
+      expect(parseDecimal('abc')).toBeNull()
+    })
+
+    it('converts numbers and bigints', () => {
+      expect(decimalToString(toDecimal(1.005)!)).toBe('1.005')
+      expect(decimalToString(toDecimal(1e21)!)).toBe('1000000000000000000000')
+      expect(decimalToString(toDecimal(-123456789012345678901234567890n)!)).toBe('-123456789012345678901234567890')
+      expect(toDecimal(Number.NaN)).toBeNull()
+      expect(toDecimal(Infinity)).toBeNull()
+    })
+
+    it('reads exponents past the decimal range as infinite and below it as zero', () => {
+      expect(parseDecimal('1e9999999999')).toBeNull()
+      expect(parseDecimal('-1e1001')).toBeNull()
+      expect(decimalToString(parseDecimal('1e1000')!)).toBe(`1${'0'.repeat(1000)}`)
+      expect(decimalToString(parseDecimal('-1e-9999999999')!)).toBe('0')
+      expect(decimalToString(parseDecimal('0e-9999999999')!)).toBe('0')
+    })
+
+    it('never produces negative zero', () => {
+      expect(decimalToString(roundDecimal(parseDecimal('-0.001')!, 2))).toBe('0.00')
+      expect(decimalToString(toDecimal(-0)!)).toBe('0')
+    })
+
+    it('compares values of different scales', () => {
+      expect(compareDecimal(parseDecimal('1.50')!, parseDecimal('1.5')!)).toBe(0)
+      expect(compareDecimal(parseDecimal('-2')!, parseDecimal('1.5')!)).toBe(-1)
+      expect(compareDecimal(parseDecimal('9007199254740993')!, parseDecimal('9007199254740992')!)).toBe(1)
+    })
+
+    it('splits values into mantissa and exponent', () => {
+      const { mantissa, exponent } = toExponentialDecimal(parseDecimal('9996')!, 2)
+      expect(decimalToString(mantissa)).toBe('1.00')
+      expect(exponent).toBe(4)
+    })
+  })
+
+  describe('Exact rounding', () => {
+    it('rounds values that binary floating point gets wrong', () => {
+      expect(roundNumber(1.005, 2, 'S')).toBe(1.01)
+      expect(roundNumber(2.675, 2, 'S')).toBe(2.68)
+      expect(roundNumber(1.255, 2, 'B')).toBe(1.26)
+      expect(roundNumber(-1.005, 2, 'S')).toBe(-1.01)
+    })
+
+    it('rounds decimal strings and bigints without converting to Number', () => {
+      expect(roundNumber('9007199254740993.125', 2, 'S')).toBe('9007199254740993.13')
+      expect(roundNumber('9007199254740993.125', 2, 'B')).toBe('9007199254740993.12')
+      expect(roundNumber(123456789012345678901234567890n, 2, 'S')).toBe('123456789012345678901234567890.00')
+      expect(roundNumber('1.234', 2, 'C')).toBe('1.24')
+      expect(roundNumber('-1.234', 2, 'F')).toBe('-1.24')
+    })
+
+    it('applies the .05 rounding methods exactly', () => {
+      expect(roundNumber('1.025', 2, 'N05')).toBe('1.05')
+      expect(roundNumber('1.01', 2, 'U05')).toBe('1.05')
+      expect(roundNumber('1.09', 2, 'D05')).toBe('1.05')
+    })
+  })
+
+  describe('Formatting beyond double precision', () => {
+    it('formats bigint values', () => {
+      expect(formatNumber({ value: 12345678901234567890123n })).toBe('12,345,678,901,234,567,890,123.00')
+      expect(formatNumber({ value: -9007199254740993n, config: { locale: undefined } })).toBe('-9,007,199,254,740,993.00')
+    })
+
+    it('formats decimal strings without losing digits', () => {
+      expect(formatNumber({ value: '90071992547409931.25' })).toBe('90,071,992,547,409,931.25')
+      expect(formatNumber({ value: '-90071992547409931.255', config: { locale: undefined } })).toBe('-90,071,992,547,409,931.26')
+      expect(formatNumber({ value: '1.005', config: { currencySymbol: '$', locale: undefined } })).toBe('$1.01')
+    })
+
+    it('honours the rounding method in the locale path', () => {
+      expect(formatNumber({ value: 1.235, config: { roundingMethod: 'B' } })).toBe('1.24')
+      expect(formatNumber({ value: 1.225, config: { roundingMethod: 'B' } })).toBe('1.22')
+      expect(formatNumber({ value: 1.231, config: { roundingMethod: 'C' } })).toBe('1.24')
+    })
+
+    it('formats scientific notation from the exact value', () => {
+      const config = { useScientificNotation: true, scientificNotationThreshold: 1000 }
+      expect(formatNumber({ value: 123456789012345678901234567890n, config })).toBe('1.23e+29')
+      expect(formatNumber({ value: '0.0000000000000000000001235', config })).toBe('1.24e-22')
+    })
+  })
+
+  describe('Huge exponents', () => {
+    it('formats values past the decimal range as infinities', () => {
+      expect(formatNumber({ value: '1e9999999999' })).toBe('∞')
+      expect(formatNumber({ value: '-1e9999999999' })).toBe('-∞')
+      expect(formatNumber({ value: '1e1000000' })).toBe('∞')
+      expect(formatNumber({ value: '1e-9999999999', config: { locale: undefined } })).toBe('0.00')
+      expect(compilePattern('0').format('1e9999999999')).toBe('∞')
+      expect(compilePattern('0.0').format('-1e-9999999999')).toBe('0.0')
+    })
+  })
+
+  describe('Exact parsing', () => {
+    it('parses formatted ledger amounts without losing digits', () => {
+      expect(parseNumberExact({ value: '$90,071,992,547,409,931.25', config: { currencySymbol: '$' } })).toBe('90071992547409931.25')
+      expect(parseNumberExact({ value: '-1.234.567,891', config: { decimalCharacter: ',', digitGroupSeparator: '.' } })).toBe('-1234567.891')
+      expect(parseNumberExact({ value: '1.23e-3' })).toBe('0.00123')
+      expect(parseNumberExact({ value: 'abc' })).toBe('0')
+    })
+
+    it('parses huge exponents as infinities and tiny ones as zero', () => {
+      expect(parseNumber({ value: '1e9999999999' })).toBe(Infinity)
+      expect(parseNumber({ value: '-1e9999999999' })).toBe(-Infinity)
+      expect(parseNumber({ value: '1e-9999999999' })).toBe(0)
+      expect(parseNumberExact({ value: '1e-9999999999' })).toBe('0')
+    })
+
+    it('parses to the nearest number', () => {
+      expect(parseNumber({ value: '0.1' })).toBe(0.1)
+      expect(parseNumber({ value: '1.230e-5' })).toBe(0.0000123)
+    })
+  })
+})
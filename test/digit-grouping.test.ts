@@ -0,0 +1,56 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, Numbers, parseNumber, parseNumberStrict } from '../src'
+import { regroupInput } from '../src/format'
+import { indianIN, rupee } from '../src/presets'
+
+describe('digit grouping', () => {
+  it('groups from the decimal point with the last size repeating', () => {
+    const format = (value: number, digitGroupSpacing: NumbersConfig['digitGroupSpacing']): string =>
+      formatNumber({ value, config: { locale: undefined, digitGroupSpacing } })
+
+    expect(format(12345678.9, [3, 2])).toBe('1,23,45,678.90')
+    expect(format(12345678.9, '2s')).toBe('1,23,45,678.90')
+    expect(format(12345678.9, [4])).toBe('1234,5678.90')
+    expect(format(12345678.9, 2)).toBe('12,34,56,78.90')
+    expect(format(1234567890, [3, 4, 2])).toBe('1,23,4567,890.00')
+    expect(format(123.4, [3, 2])).toBe('123.40')
+    expect(format(1234, [])).toBe('1234.00')
+  })
+
+  it('formats the Indian presets in lakh and crore', () => {
+    expect(formatNumber({ value: 12345678.9, config: rupee })).toBe('₹1,23,45,678.90')
+    expect(formatNumber({ value: -1234567, config: indianIN })).toBe('-12,34,567.00')
+  })
+
+  it('parses and validates with the same grouping', () => {
+    expect(parseNumber({ value: '₹1,23,45,678.90', config: rupee })).toBe(12345678.9)
+    expect(parseNumberStrict({ value: '1,23,45,678.90', config: rupee })).toMatchObject({ ok: true, exact: '12345678.90' })
+    expect(parseNumberStrict({ value: '12,345,678.90', config: rupee })).toMatchObject({ ok: false, error: { reason: 'misplacedGroupSeparator', offset: 2 } })
+    expect(parseNumberStrict({ value: '1234,5678', config: { digitGroupSpacing: [4] } })).toMatchObject({ ok: true, exact: '12345678' })
+    expect(parseNumberStrict({ value: '12345,6789', config: { digitGroupSpacing: [4] } })).toMatchObject({ ok: false, error: { offset: 5 } })
+  })
+
+  it('regroups typed digits and keeps the caret after the same digit', () => {
+    expect(regroupInput('1,2345', 6, {})).toEqual({ value: '12,345', caret: 6 })
+    expect(regroupInput('12345', 3, { digitGroupSpacing: [3, 2] })).toEqual({ value: '12,345', caret: 4 })
+    expect(regroupInput('₹1,2345.6', 6, rupee)).toEqual({ value: '₹12,345.6', caret: 6 })
+    expect(regroupInput('1,234,567', 0, rupee)).toEqual({ value: '12,34,567', caret: 0 })
+    expect(regroupInput('.12345', 6, {})).toEqual({ value: '.12345', caret: 6 })
+  })
+
+  it('regroups the input while typing', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, rupee)
+
+    element.value = '1234567'
+    element.setSelectionRange(7, 7)
+    element.dispatchEvent(new KeyboardEvent('keyup', { key: '7' }))
+    expect(element.value).toBe('12,34,567')
+    expect(element.selectionStart).toBe(9)
+    expect(numbers.getNumber()).toBe(1234567)
+
+    numbers.remove()
+  })
+})
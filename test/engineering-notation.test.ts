@@ -0,0 +1,120 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, parseNumber } from '../src'
+
+describe('Engineering Notation and SI Prefixes', () => {
+  describe('Engineering notation', () => {
+    const config: NumbersConfig = {
+      locale: undefined,
+      engineeringNotation: true,
+      engineeringNotationThreshold: 1000,
+    }
+
+    it('keeps exponents at multiples of three', () => {
+      expect(formatNumber({ value: 12345, config })).toBe('12.35e+3')
+      expect(formatNumber({ value: 123456, config })).toBe('123.46e+3')
+      expect(formatNumber({ value: 1234567, config })).toBe('1.23e+6')
+      expect(formatNumber({ value: -0.000012345, config })).toBe('-12.35e-6')
+    })
+
+    it('moves to the next exponent when rounding carries', () => {
+      expect(formatNumber({ value: 999999.999, config })).toBe('1.00e+6')
+    })
+
+    it('uses its own thresholds and mantissa digits', () => {
+      const custom: NumbersConfig = {
+        ...config,
+        engineeringNotationThreshold: 1e9,
+        engineeringNotationSmallThreshold: 0.01,
+        engineeringMantissaDigits: 1,
+      }
+
+      expect(formatNumber({ value: 12345, config: custom })).toBe('12,345.00')
+      expect(formatNumber({ value: 12345678901, config: custom })).toBe('12.3e+9')
+      expect(formatNumber({ value: 0.005, config: custom })).toBe('5.0e-3')
+    })
+  })
+
+  describe('Scientific notation thresholds and display', () => {
+    it('makes the small-number cutoff configurable', () => {
+      const config: NumbersConfig = {
+        locale: undefined,
+        useScientificNotation: true,
+        scientificNotationSmallThreshold: 0.01,
+      }
+
+      expect(formatNumber({ value: 0.005, config })).toBe('5.00e-3')
+      expect(formatNumber({ value: 0.05, config })).toBe('0.05')
+      expect(formatNumber({ value: 0.0005, config: { ...config, scientificNotationSmallThreshold: 0 } })).toBe('0.00')
+    })
+
+    it('renders superscript powers of ten', () => {
+      const config: NumbersConfig = {
+        locale: undefined,
+        useScientificNotation: true,
+        exponentDisplay: 'superscript',
+        scientificMantissaDigits: 3,
+      }
+
+      expect(formatNumber({ value: 1234567, config })).toBe('1.235×10⁶')
+      expect(formatNumber({ value: 0.00012, config })).toBe('1.200×10⁻⁴')
+      expect(formatNumber({ value: 12345, config: { ...config, useScientificNotation: false, engineeringNotation: true, engineeringNotationThreshold: 1000 } }))
+        .toBe('12.35×10³')
+    })
+  })
+
+  describe('SI prefixes', () => {
+    const config: NumbersConfig = {
+      locale: undefined,
+      siUnitPrefixes: true,
+    }
+
+    it('formats with SI prefixes', () => {
+      expect(formatNumber({ value: 1500, config })).toBe('1.50k')
+      expect(formatNumber({ value: 2200000, config })).toBe('2.20M')
+      expect(formatNumber({ value: 3300000000, config })).toBe('3.30G')
+      expect(formatNumber({ value: 0.5, config })).toBe('500.00m')
+      expect(formatNumber({ value: 0.0000047, config })).toBe('4.70µ')
+    })
+
+    it('attaches prefixes to the unit', () => {
+      expect(formatNumber({ value: 1500000, config: { ...config, suffixText: ' Hz' } })).toBe('1.50 MHz')
+      expect(formatNumber({ value: -4700, config: { ...config, suffixText: ' Ω', siUnitPrefixMantissaDigits: 1 } })).toBe('-4.7 kΩ')
+      expect(formatNumber({ value: 500, config: { ...config, suffixText: ' Hz' } })).toBe('500.00 Hz')
+    })
+
+    it('falls back to exponents outside the prefix range', () => {
+      expect(formatNumber({ value: 1e33, config })).toBe('1.00e+33')
+    })
+  })
+
+  describe('Round-tripping', () => {
+    const configs: NumbersConfig[] = [
+      { locale: undefined, engineeringNotation: true, engineeringNotationThreshold: 1000 },
+      { locale: undefined, useScientificNotation: true, exponentDisplay: 'superscript' },
+      { locale: undefined, engineeringNotation: true, exponentDisplay: 'superscript' },
+      { locale: undefined, siUnitPrefixes: true },
+      { locale: undefined, siUnitPrefixes: true, suffixText: ' Hz' },
+      { locale: undefined, siUnitPrefixes: true, suffixText: 'm', siUnitPrefixMantissaDigits: 3 },
+    ]
+    const values = [12500, 1250000, -3.75e9, 0.00025, -0.5, 4.5e-8]
+
+    it('parses every formatted form back to its value', () => {
+      for (const config of configs) {
+        for (const value of values) {
+          const formatted = formatNumber({ value, config })
+          expect(parseNumber({ value: formatted, config })).toBe(value)
+        }
+      }
+    })
+
+    it('accepts alternative power-of-ten and micro spellings', () => {
+      const config: NumbersConfig = { locale: undefined, siUnitPrefixes: true }
+
+      expect(parseNumber({ value: '1.5×10⁻³', config })).toBe(0.0015)
+      expect(parseNumber({ value: '1.5 x 10^6', config })).toBe(1500000)
+      expect(parseNumber({ value: '4.7u', config })).toBe(0.0000047)
+      expect(parseNumber({ value: '4.7μ', config })).toBe(0.0000047)
+    })
+  })
+})
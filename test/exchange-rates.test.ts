@@ -0,0 +1,130 @@
+import type { ConversionFailedDetail, ExchangeRateTable, NumbersChangeDetail } from '../src'
+import { afterEach, describe, expect, it, spyOn } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { convert, createJsonRateProvider, createStaticRateProvider, getExchangeRate, Money, Numbers, setExchangeRateProvider } from '../src'
+
+const ECB: ExchangeRateTable = {
+  base: 'EUR',
+  source: 'ECB',
+  rates: {
+    '2026-10-15': { USD: '1.0800', JPY: '160', GBP: '0.85' },
+    '2026-10-16': { USD: '1.0850', JPY: '161', GBP: '0.86' },
+  },
+}
+
+afterEach(() => {
+  setExchangeRateProvider(null)
+})
+
+describe('exchange rate providers', () => {
+  it('provides rates against the base and crosses them through it', () => {
+    const provider = createStaticRateProvider({ base: 'USD', rates: { EUR: '0.8', JPY: 150 }, timestamp: '2026-10-19T08:00:00Z' })
+    expect(provider.getRate('USD', 'EUR')).toEqual({ from: 'USD', to: 'EUR', rate: '0.8', source: 'static', timestamp: '2026-10-19T08:00:00Z' })
+    expect(provider.getRate('EUR', 'USD')?.rate).toBe('1.25')
+    expect(provider.getRate('EUR', 'JPY')?.rate).toBe('187.5')
+    expect(provider.getRate('JPY', 'EUR')?.rate).toBe('0.00533333333333333333')
+    expect(provider.getRate('USD', 'GBP')).toBeNull()
+  })
+
+  it('reads rates by day from a JSON file', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'rates-'))
+    const file = join(directory, 'ecb.json')
+    writeFileSync(file, JSON.stringify(ECB))
+
+    try {
+      const provider = createJsonRateProvider(file)
+      expect(provider.getRate('EUR', 'USD')).toEqual({ from: 'EUR', to: 'USD', rate: '1.0850', source: 'ECB', timestamp: '2026-10-16' })
+      expect(provider.getRate('EUR', 'USD', '2026-10-15')?.rate).toBe('1.0800')
+      expect(provider.getRate('EUR', 'USD', '2026-10-18')?.timestamp).toBe('2026-10-16')
+      expect(provider.getRate('EUR', 'USD', '2026-10-01')).toBeNull()
+
+      writeFileSync(file, '{"rates": {}}')
+      expect(() => createJsonRateProvider(file)).toThrow(`Exchange rate files have a base currency and rates: ${file}`)
+    }
+    finally {
+      rmSync(directory, { recursive: true })
+    }
+  })
+})
+
+describe('convert', () => {
+  it('converts with the rate of the day, rounded to the minor unit', () => {
+    setExchangeRateProvider(createJsonRateProvider(ECB))
+    expect(convert(100, 'EUR', 'USD').amount).toEqual(Money.of('108.50', 'USD'))
+    expect(convert(Money.of(100, 'EUR'), 'EUR', 'JPY', { date: new Date('2026-10-15T12:00:00Z') }).amount.toDecimalString()).toBe('16000')
+    expect(convert('10.00', 'USD', 'GBP', { rounding: 'D' }).amount.toDecimalString()).toBe('7.92')
+    expect(convert('10.00', 'USD', 'GBP').rate).toMatchObject({ source: 'ECB', timestamp: '2026-10-16' })
+    expect(getExchangeRate('usd', 'eur')?.rate).toBe('0.92165898617511520737')
+  })
+
+  it('rounds to whole minor units with the .05 rounding methods', () => {
+    const provider = createStaticRateProvider({ base: 'EUR', rates: { USD: '1.0833' } })
+    expect(convert('10.00', 'EUR', 'USD', { provider, rounding: 'N05' }).amount.toDecimalString()).toBe('10.83')
+    expect(convert('10.00', 'EUR', 'USD', { provider, rounding: 'U05' }).amount.toDecimalString()).toBe('10.84')
+    expect(convert('10.00', 'EUR', 'USD', { provider, rounding: 'D05' }).amount.toDecimalString()).toBe('10.83')
+
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, { locale: undefined, roundingMethod: 'U05', convertOnCurrencyChange: true, exchangeRateProvider: provider })
+    numbers.set(Money.of(10, 'EUR'))
+    numbers.setCurrency('USD')
+    expect(numbers.getMoney()).toEqual(Money.of('10.85', 'USD'))
+
+    numbers.remove()
+  })
+
+  it('fails without a provider or a rate', () => {
+    expect(() => convert(1, 'EUR', 'USD')).toThrow('No exchange rate provider')
+    const provider = createStaticRateProvider({ base: 'EUR', rates: { USD: 1.1 } })
+    expect(() => convert(1, 'EUR', 'CHF', { provider })).toThrow('No exchange rate from EUR to CHF')
+    expect(() => convert(Money.of(1, 'USD'), 'EUR', 'CHF', { provider })).toThrow('Cannot convert USD amounts from EUR')
+  })
+})
+
+describe('Numbers converting on currency change', () => {
+  it('converts the value and reports the rate in the change event', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const provider = createJsonRateProvider(ECB)
+    const numbers = new Numbers(element, { locale: undefined, convertOnCurrencyChange: true, exchangeRateProvider: provider })
+    numbers.set(Money.of(100, 'EUR'))
+
+    const details: NumbersChangeDetail[] = []
+    element.addEventListener('numbers:change', event => details.push((event as CustomEvent<NumbersChangeDetail>).detail))
+    numbers.setCurrency('USD')
+    expect(element.value).toBe('$108.50')
+    expect(details).toEqual([{ value: 108.5, formatted: '$108.50', exchangeRate: { from: 'EUR', to: 'USD', rate: '1.0850', source: 'ECB', timestamp: '2026-10-16' } }])
+
+    // Without a rate the currency stays as it is and the failure is reported
+    const failures: ConversionFailedDetail[] = []
+    element.addEventListener('numbers:conversionFailed', event => failures.push((event as CustomEvent<ConversionFailedDetail>).detail))
+    const warn = spyOn(console, 'warn').mockImplementation(() => {})
+    numbers.setCurrency('CHF')
+    expect(warn).toHaveBeenCalledWith('Currency stays USD: No exchange rate from USD to CHF')
+    expect(failures).toEqual([{ from: 'USD', to: 'CHF', error: new Error('No exchange rate from USD to CHF') }])
+    expect(numbers.getMoney()).toEqual(Money.of('108.50', 'USD'))
+    expect(details).toHaveLength(1)
+    warn.mockRestore()
+
+    // An empty value only switches currency
+    numbers.clear()
+    numbers.setCurrency('CHF')
+    expect(failures).toHaveLength(1)
+    expect(numbers.getConfig().activeCurrency).toBe('CHF')
+
+    numbers.remove()
+  })
+
+  it('only changes how the value looks when not converting', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, { locale: undefined })
+    numbers.set(Money.of(100, 'EUR'))
+    numbers.setCurrency('USD')
+    expect(numbers.getMoney()).toEqual(Money.of(100, 'USD'))
+
+    numbers.remove()
+  })
+})
@@ -65,10 +65,9 @@ describe('Format Patterns', () => {
     it('applies currency format patterns', () => {
       expect(applyFormatPattern({ value: 1234.56, pattern: '$#,##0.00' })).toBe('$1,234.56')
 
-      // The implementation uses "$-1,234.56" format for negative currency values
-      // so we'll test against the actual implementation instead of the expected "-$1,234.56"
+      // Patterns place the negative sign before the currency symbol
       const formattedNegative = applyFormatPattern({ value: -1234.56, pattern: '$#,##0.00' })
-      expect(formattedNegative).toBe('$-1,234.56')
+      expect(formattedNegative).toBe('-$1,234.56')
 
       // With custom currency symbol
       expect(applyFormatPattern({
@@ -93,8 +92,8 @@ describe('Format Patterns', () => {
     })
 
     it('applies scientific notation format patterns', () => {
-      expect(applyFormatPattern({ value: 1234.56, pattern: '0.000E+00' })).toBe('1.235e+3')
-      expect(applyFormatPattern({ value: 0.0001234, pattern: '0.00E+00' })).toBe('1.23e-4')
+      expect(applyFormatPattern({ value: 1234.56, pattern: '0.000E+00' })).toBe('1.235E+03')
+      expect(applyFormatPattern({ value: 0.0001234, pattern: '0.00E+00' })).toBe('1.23E-04')
     })
 
     it('applies custom format patterns', () => {
@@ -139,8 +138,8 @@ describe('Format Patterns', () => {
     })
 
     it('applies predefined scientific notation formats', () => {
-      expect(applyPredefinedPattern({ value: 1234.56, patternName: 'scientific' })).toBe('1.235e+3')
-      expect(applyPredefinedPattern({ value: 1234.56, patternName: 'scientificShort' })).toBe('1.2e+3')
+      expect(applyPredefinedPattern({ value: 1234.56, patternName: 'scientific' })).toBe('1.235E+03')
+      expect(applyPredefinedPattern({ value: 1234.56, patternName: 'scientificShort' })).toBe('1.2E+3')
     })
 
     it('applies predefined fixed precision formats', () => {
@@ -183,13 +182,15 @@ describe('Format Patterns', () => {
       expect(applyFormatPattern({ value: 0, pattern: '#,##0.00' })).toBe('0.00')
       expect(applyFormatPattern({ value: 0, pattern: '#,##0.##' })).toBe('0')
       expect(applyFormatPattern({ value: 0, pattern: '$#,##0.00;($#,##0.00)' })).toBe('$0.00')
-      expect(applyFormatPattern({ value: 0, pattern: '0.000E+00' })).toBe('0.000e+0')
+      expect(applyFormatPattern({ value: 0, pattern: '0.000E+00' })).toBe('0.000E+00')
       expect(applyFormatPattern({ value: 0, pattern: '#,##0.00%' })).toBe('0.00%')
     })
 
     it('handles very large and very small numbers', () => {
       expect(applyFormatPattern({ value: 9876543210.12, pattern: '#,##0.00' })).toBe('9,876,543,210.12')
-      expect(applyFormatPattern({ value: 0.00000123, pattern: '0.000000E+00' })).toBe('1.230000e-6')
+      expect(applyFormatPattern({ value: 0.00000123, pattern: '0.000000E+00' })).toBe('1.230000E-06')
+      expect(applyFormatPattern({ value: 12345678901234567890n, pattern: '#,##0' })).toBe('12,345,678,901,234,567,890')
+      expect(applyPredefinedPattern({ value: 12345678901234567890n, patternName: 'thousands' })).toBe('12,345,678,901,234,568K')
     })
   })
 })
@@ -0,0 +1,117 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber } from '../src'
+
+// Options that must not change the output of formatNumber when added to any config
+const unrelatedOptions: NumbersConfig[] = [
+  { verbose: false },
+  { selectOnFocus: true },
+  { modifyValueOnWheel: true, wheelStep: 10 },
+  { minimumValue: '-1e12', maximumValue: '1e12' },
+  { caretPositionOnFocus: 'end', readOnly: false },
+  { styleRules: { positive: 'up', negative: 'down' } },
+]
+
+describe('formatNumber pipeline', () => {
+  it('gives the same output when unrelated options are added', () => {
+    const configs: NumbersConfig[] = [
+      {},
+      { locale: undefined },
+      { locale: undefined, digitGroupSeparator: '.', decimalCharacter: ',' },
+      { locale: undefined, digitGroupSpacing: '2' },
+      { locale: undefined, showPositiveSign: true, negativeSignCharacter: '−' },
+      { locale: 'de-DE', currencySymbol: 'EUR' },
+      { locale: 'en-IN' },
+      { useCompactNotation: true },
+    ]
+
+    for (const config of configs) {
+      for (const value of [0, 42, -1234.567, 1234567.891]) {
+        const expected = formatNumber({ value, config })
+        for (const extra of unrelatedOptions) {
+          expect(formatNumber({ value, config: { ...config, ...extra } })).toBe(expected)
+          expect(formatNumber({ value, config: { ...extra, ...config } })).toBe(expected)
+        }
+      }
+    }
+  })
+
+  it('rounds and orders affixes the same way with German separators', () => {
+    const german: NumbersConfig = { locale: undefined, digitGroupSeparator: '.', decimalCharacter: ',' }
+
+    expect(formatNumber({ value: 1234.567, config: german })).toBe('1.234,57')
+    expect(formatNumber({ value: 1234.567, config: { ...german, roundingMethod: 'D' } })).toBe('1.234,56')
+    expect(formatNumber({ value: -1234.5, config: { ...german, suffixText: ' Stk', currencySymbol: '€', currencySymbolPlacement: 's' } }))
+      .toBe('-1.234,50 Stk€')
+    expect(formatNumber({ value: -1234.5, config: { ...german, currencySymbol: '€' } })).toBe('€-1.234,50')
+  })
+
+  it('applies digitGroupSpacing whatever other keys are set', () => {
+    const expected = formatNumber({ value: 1234567, config: { digitGroupSpacing: '2' } })
+
+    expect(formatNumber({ value: 1234567, config: { digitGroupSpacing: '2', decimalPlaces: 2 } })).toBe(expected)
+    expect(formatNumber({ value: 1234567, config: { digitGroupSpacing: '2', currencySymbol: '₹' } })).toBe(`₹${expected}`)
+    expect(formatNumber({ value: 1234567, config: { digitGroupSpacing: 4, locale: undefined } })).toBe('123,4567.00')
+  })
+
+  it('uses the merged config for signs', () => {
+    expect(formatNumber({ value: -5, config: { negativeSignCharacter: '−' } })).toBe('−5.00')
+    expect(formatNumber({ value: 5, config: { showPositiveSign: true, positiveSignCharacter: '⁺' } })).toBe('⁺5.00')
+    expect(formatNumber({ value: 5, config: { locale: 'de-DE', showPositiveSign: true } })).toBe('+5,00')
+    expect(formatNumber({ value: -5, config: { locale: 'de-DE', negativeSignCharacter: '−', suffixText: ' kg' } })).toBe('−5,00 kg')
+  })
+
+  it('takes symbols from the locale unless the config overrides them', () => {
+    expect(formatNumber({ value: 1234567.5, config: { locale: 'de-DE' } })).toBe('1.234.567,50')
+    expect(formatNumber({ value: 1234567.5, config: { locale: 'de-DE', digitGroupSeparator: '\'' } })).toBe('1\'234\'567,50')
+    expect(formatNumber({ value: 1234567.5, config: { locale: 'de-DE', useGrouping: false } })).toBe('1234567,50')
+    expect(formatNumber({ value: 12345678, config: { locale: 'en-IN' } })).toBe('1,23,45,678.00')
+    expect(formatNumber({ value: 1234, config: { locale: 'es-ES' } })).toBe('1234,00')
+    expect(formatNumber({ value: 12345, config: { locale: 'es-ES' } })).toBe('12.345,00')
+    expect(formatNumber({ value: -1234.5, config: { locale: 'ar-EG', numberingSystem: 'arab' } }))
+      .toBe(new Intl.NumberFormat('ar-EG', { numberingSystem: 'arab', minimumFractionDigits: 2 }).format(-1234.5))
+  })
+
+  it('formats every combination of sign, padding, affixes and brackets consistently', () => {
+    const signs: NumbersConfig[] = [{}, { showPositiveSign: true }, { negativeSignCharacter: '−' }]
+    const paddings: NumbersConfig[] = [{}, { allowDecimalPadding: false }, { decimalPlaces: 0 }]
+    const currencies: NumbersConfig[] = [{}, { currencySymbol: '$', currencySymbolPlacement: 'p' }, { currencySymbol: '€', currencySymbolPlacement: 's' }]
+    const suffixes: NumbersConfig[] = [{}, { suffixText: ' kg' }]
+    const brackets: NumbersConfig[] = [{}, { negativeBracketsTypeOnBlur: '(,)' }]
+    const locales: NumbersConfig[] = [{ locale: undefined }, { locale: 'en-US' }, { locale: 'de-DE' }]
+
+    for (const sign of signs) {
+      for (const padding of paddings) {
+        for (const currency of currencies) {
+          for (const suffix of suffixes) {
+            for (const bracket of brackets) {
+              for (const locale of locales) {
+                const config = { ...sign, ...padding, ...currency, ...suffix, ...bracket, ...locale }
+                const positive = formatNumber({ value: 1234.5, config })
+                const negative = formatNumber({ value: -1234.5, config })
+                const absolute = positive.replace(config.showPositiveSign ? '+' : /^$/, '')
+
+                // Affixes wrap the digits in the same order for every combination
+                const prefix = config.currencySymbol && config.currencySymbolPlacement !== 's' ? config.currencySymbol : ''
+                const tail = `${config.suffixText ?? ''}${config.currencySymbolPlacement === 's' ? config.currencySymbol : ''}`
+                expect(absolute.startsWith(prefix)).toBe(true)
+                expect(absolute.endsWith(tail)).toBe(true)
+
+                // Negative values differ from their absolute value only by the sign or the brackets
+                const digits = absolute.slice(prefix.length, absolute.length - tail.length)
+                expect(negative).toBe(config.negativeBracketsTypeOnBlur
+                  ? `(${prefix}${digits}${tail})`
+                  : `${prefix}${config.negativeSignCharacter ?? '-'}${digits}${tail}`)
+
+                // Padding and rounding depend only on the padding options
+                const decimal = config.locale === 'de-DE' ? ',' : '.'
+                const fraction = digits.split(decimal)[1] ?? ''
+                expect(fraction).toBe(config.decimalPlaces === 0 ? '' : config.allowDecimalPadding === false ? '5' : '50')
+              }
+            }
+          }
+        }
+      }
+    }
+  })
+})
@@ -0,0 +1,161 @@
+import type { NumberFormatPart, NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { applyFormatPattern, applyFormatPatternToParts, formatNumber, formatNumberToParts } from '../src'
+import { accounting, euro, phoneUS, tempCelsius } from '../src/presets'
+
+// Compact [type, value] pairs are easier to read in assertions
+function pairs(parts: NumberFormatPart[]): [string, string][] {
+  return parts.map(part => [part.type, part.value])
+}
+
+describe('formatNumberToParts', () => {
+  it('splits manual output into digit, separator and affix parts', () => {
+    const config: NumbersConfig = {
+      locale: undefined,
+      currencySymbol: '€',
+      currencySymbolPlacement: 's',
+      suffixText: ' EUR',
+    }
+
+    expect(pairs(formatNumberToParts({ value: -1234.5, config }))).toEqual([
+      ['sign', '-'],
+      ['integer', '1'],
+      ['group', ','],
+      ['integer', '234'],
+      ['decimal', '.'],
+      ['fraction', '50'],
+      ['suffix', ' EUR'],
+      ['currency', '€'],
+    ])
+  })
+
+  it('maps Intl parts on the locale path', () => {
+    expect(pairs(formatNumberToParts({ value: -1234.5, config: { locale: 'de-DE', currencySymbol: 'EUR' } }))).toEqual([
+      ['sign', '-'],
+      ['integer', '1'],
+      ['group', '.'],
+      ['integer', '234'],
+      ['decimal', ','],
+      ['fraction', '50'],
+      ['literal', ' '],
+      ['currency', '€'],
+    ])
+  })
+
+  it('marks accounting brackets as literals', () => {
+    expect(pairs(formatNumberToParts({ value: -1234.56, config: accounting }))).toEqual([
+      ['literal', '('],
+      ['currency', '$'],
+      ['integer', '1'],
+      ['group', ','],
+      ['integer', '234'],
+      ['decimal', '.'],
+      ['fraction', '56'],
+      ['literal', ')'],
+    ])
+  })
+
+  it('returns exponent and suffix parts for notations', () => {
+    expect(pairs(formatNumberToParts({ value: 1234567, config: { useScientificNotation: true, exponentDisplay: 'superscript' } }))).toEqual([
+      ['integer', '1'],
+      ['decimal', '.'],
+      ['fraction', '23'],
+      ['exponent', '×10⁶'],
+    ])
+
+    expect(pairs(formatNumberToParts({ value: 2500000, config: { locale: undefined, useCompactNotation: true } }))).toEqual([
+      ['integer', '2'],
+      ['decimal', '.'],
+      ['fraction', '5'],
+      ['suffix', 'M'],
+    ])
+  })
+
+  it('segments specialized types', () => {
+    expect(pairs(formatNumberToParts({ value: '5551234567', config: phoneUS }))).toEqual([
+      ['literal', '('],
+      ['integer', '555'],
+      ['literal', ') '],
+      ['integer', '123'],
+      ['literal', '-'],
+      ['integer', '4567'],
+    ])
+
+    const temperature = formatNumberToParts({ value: 21.5, config: tempCelsius })
+    expect(temperature.some(part => part.type === 'fraction')).toBe(true)
+    expect(temperature[temperature.length - 1].type).toBe('suffix')
+  })
+
+  it('returns literal parts for values that are not numbers', () => {
+    expect(pairs(formatNumberToParts({ value: Number.NaN }))).toEqual([['literal', 'NaN']])
+    expect(pairs(formatNumberToParts({ value: -Infinity }))).toEqual([['sign', '-'], ['literal', '∞']])
+  })
+
+  it('joins back to the formatNumber output for every path', () => {
+    const configs: NumbersConfig[] = [
+      {},
+      { locale: undefined },
+      { locale: 'fr-FR', currencySymbol: 'EUR' },
+      { locale: 'ja-JP', currencySymbol: '¥' },
+      { locale: undefined, showPositiveSign: true, suffixText: ' kg' },
+      { locale: undefined, allowDecimalPadding: false, currencySymbol: '$' },
+      { digitGroupSpacing: '2' },
+      { ...euro, locale: undefined },
+      { negativeBracketsTypeOnBlur: '[,]' },
+      { useScientificNotation: true, scientificNotationThreshold: 1000 },
+      { siUnitPrefixes: true, suffixText: 'V' },
+      { useCompactNotation: true, compactDisplay: 'long' },
+      accounting,
+      phoneUS,
+      tempCelsius,
+    ]
+
+    for (const config of configs) {
+      for (const value of [0, 7, -1234.567, 9876543.21, 0.00042]) {
+        const parts = formatNumberToParts({ value, config })
+        expect(parts.map(part => part.value).join('')).toBe(formatNumber({ value, config }))
+        expect(parts.every(part => part.value !== '')).toBe(true)
+      }
+    }
+  })
+})
+
+describe('applyFormatPatternToParts', () => {
+  it('keeps pattern literals and units as separate parts', () => {
+    expect(pairs(applyFormatPatternToParts({ value: -1234.5, pattern: '$#,##0.00;($#,##0.00)' }))).toEqual([
+      ['literal', '('],
+      ['currency', '$'],
+      ['integer', '1'],
+      ['group', ','],
+      ['integer', '234'],
+      ['decimal', '.'],
+      ['fraction', '50'],
+      ['literal', ')'],
+    ])
+
+    expect(pairs(applyFormatPatternToParts({ value: 0.1234, pattern: '0.00%' }))).toEqual([
+      ['integer', '12'],
+      ['decimal', '.'],
+      ['fraction', '34'],
+      ['literal', '%'],
+    ])
+
+    expect(pairs(applyFormatPatternToParts({ value: 12346, pattern: '0.000E+00' }))).toEqual([
+      ['integer', '1'],
+      ['decimal', '.'],
+      ['fraction', '235'],
+      ['exponent', 'E+04'],
+    ])
+  })
+
+  it('joins back to the applyFormatPattern output', () => {
+    const patterns = ['#,##0.00', '#,##0.##', '$#,##0.00;($#,##0.00)', '#0%', '0.0E+0', '#,##0,K', '#,##0.0,,M', '+0.00']
+
+    for (const pattern of patterns) {
+      for (const value of [0, 42.5, -1234.567, 1234567.89]) {
+        const joined = applyFormatPatternToParts({ value, pattern }).map(part => part.value).join('')
+        expect(joined).toBe(applyFormatPattern({ value, pattern }))
+      }
+    }
+  })
+})
@@ -53,13 +53,13 @@ describe('Format Module', () => {
       // Up rounding (U)
       expect(roundNumber(1.234, 2, 'U')).toBe(1.24)
       expect(roundNumber(1.235, 2, 'U')).toBe(1.24)
-      expect(roundNumber(-1.234, 2, 'U')).toBe(-1.23)
+      expect(roundNumber(-1.234, 2, 'U')).toBe(-1.24)
 
       // Down rounding (D)
       expect(roundNumber(1.234, 2, 'D')).toBe(1.23)
       expect(roundNumber(1.235, 2, 'D')).toBe(1.23)
       expect(roundNumber(1.236, 2, 'D')).toBe(1.23)
-      expect(roundNumber(-1.234, 2, 'D')).toBe(-1.24)
+      expect(roundNumber(-1.234, 2, 'D')).toBe(-1.23)
 
       // Ceiling rounding (C)
       expect(roundNumber(1.234, 2, 'C')).toBe(1.24)
@@ -141,7 +141,7 @@ describe('Format Module', () => {
         digitGroupSpacing: '2',
       }
       // Use the actual formatter instead of our test formatter
-      expect(formatNumber({ value: 1234567.89, config })).toBe('12,34,56,7.89')
+      expect(formatNumber({ value: 1234567.89, config })).toBe('12,34,567.89')
     })
 
     it('formats with positive sign option', () => {
@@ -0,0 +1,112 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { applyFormatPattern, applyFormatPatternToParts, compilePattern, formatNumber, formatNumberToParts, parseNumber, parseNumberExact } from '../src'
+import { toDecimal } from '../src/decimal'
+import { approximateFraction } from '../src/fractions'
+
+function format(value: number | string, config: NumbersConfig): string {
+  return formatNumber({ value, config: { locale: undefined, ...config } })
+}
+
+function pattern(value: number | string, pattern: string): string {
+  return applyFormatPattern({ value, pattern })
+}
+
+describe('fraction patterns', () => {
+  it('writes mixed and improper fractions', () => {
+    expect(pattern(3.25, '# ?/?')).toBe('3 1/4')
+    expect(pattern(-3.25, '# ?/?')).toBe('-3 1/4')
+    expect(pattern(3.3125, '# ??/??')).toBe('3  5/16')
+    expect(pattern(3.14159, '?/?')).toBe('22/7')
+    expect(pattern(1234.5, '#,##0 ?/?')).toBe('1,234 1/2')
+    expect(pattern(0.3, '0 #/#')).toBe('0 2/7')
+  })
+
+  it('rounds to a fixed denominator without reducing it', () => {
+    expect(pattern(0.3, '# ?/8')).toBe(' 2/8')
+    expect(pattern(2.999, '# ?/4')).toBe('3    ')
+    expect(pattern(5.5, '0 ??/16')).toBe('5  8/16')
+  })
+
+  it('aligns whole numbers and zero with ? placeholders', () => {
+    expect(pattern(3, '# ?/?')).toBe('3    ')
+    expect(pattern(0, '# ?/?')).toBe('0    ')
+    expect(pattern(3, '# #/#')).toBe('3')
+    expect(pattern(0.25, '# ?/?')).toBe(' 1/4')
+  })
+
+  it('types numerators and denominators', () => {
+    expect(applyFormatPatternToParts({ value: 3.25, pattern: '# ?/?' })).toEqual([
+      { type: 'integer', value: '3' },
+      { type: 'literal', value: ' ' },
+      { type: 'numerator', value: '1' },
+      { type: 'literal', value: '/' },
+      { type: 'denominator', value: '4' },
+    ])
+    expect(compilePattern('# ??/??').sections[0].number?.rational).toEqual({ numerator: '??', denominator: '??', fixedDenominator: null })
+    expect(pattern(5, 'd/m')).toBe('d/m')
+  })
+
+  it('reports misplaced fraction bars', () => {
+    expect(() => compilePattern('# ?/?/?')).toThrow('Second fraction bar at position 5')
+    expect(() => compilePattern('0.0/0')).toThrow('Fraction bar after a decimal point or exponent at position 3')
+    expect(() => compilePattern('# ?/8?')).toThrow('Digit placeholders after a fixed denominator at position 5')
+    expect(() => compilePattern('# ?/?.0')).toThrow('Decimal point in a fraction at position 5')
+  })
+})
+
+describe('fractionMode', () => {
+  it('writes the closest fraction up to the maximum denominator', () => {
+    expect(format(3.25, { fractionMode: 'mixed' })).toBe('3 1/4')
+    expect(format(3.25, { fractionMode: 'improper' })).toBe('13/4')
+    expect(format(0.25, { fractionMode: 'mixed' })).toBe('1/4')
+    expect(format(0, { fractionMode: 'mixed' })).toBe('0')
+    expect(format(-3.14159, { fractionMode: 'mixed' })).toBe('-3 1/7')
+    expect(format(3.14159, { fractionMode: 'mixed', maximumDenominator: 1000 })).toBe('3 16/113')
+  })
+
+  it('rounds to a fixed denominator with the rounding method', () => {
+    expect(format(0.3125, { fractionMode: 'mixed', fixedDenominator: 8 })).toBe('3/8')
+    expect(format(0.3, { fractionMode: 'mixed', fixedDenominator: 8, roundingMethod: 'F' })).toBe('2/8')
+    expect(format(-0.3, { fractionMode: 'mixed', fixedDenominator: 8, roundingMethod: 'F' })).toBe('-3/8')
+    expect(format(1.99, { fractionMode: 'mixed', fixedDenominator: 2 })).toBe('2')
+  })
+
+  it('keeps currency, grouping and parts', () => {
+    expect(format(1234.5, { fractionMode: 'mixed', currencySymbol: '$' })).toBe('$1,234 1/2')
+    expect(formatNumberToParts({ value: 0.75, config: { locale: undefined, fractionMode: 'improper' } })).toEqual([
+      { type: 'numerator', value: '3' },
+      { type: 'literal', value: '/' },
+      { type: 'denominator', value: '4' },
+    ])
+  })
+
+  it('finds the best rational approximation', () => {
+    expect(approximateFraction(toDecimal('3.14159265')!, 100)).toEqual({ numerator: 311n, denominator: 99n })
+    expect(approximateFraction(toDecimal('0.333')!, 10)).toEqual({ numerator: 1n, denominator: 3n })
+    expect(approximateFraction(toDecimal('0.5')!, 1)).toEqual({ numerator: 0n, denominator: 1n })
+  })
+})
+
+describe('parsing fractions', () => {
+  it('reads mixed, improper and vulgar fractions', () => {
+    expect(parseNumber({ value: '3 1/4' })).toBe(3.25)
+    expect(parseNumber({ value: '-3 1/4' })).toBe(-3.25)
+    expect(parseNumber({ value: '13/4' })).toBe(3.25)
+    expect(parseNumber({ value: '3¾' })).toBe(3.75)
+    expect(parseNumber({ value: '2 ½' })).toBe(2.5)
+    expect(parseNumber({ value: '-⅛' })).toBe(-0.125)
+    expect(parseNumber({ value: '1,234 1/2' })).toBe(1234.5)
+    expect(parseNumber({ value: '1.234 1/2', config: { locale: 'de-DE' } })).toBe(1234.5)
+  })
+
+  it('reads recurring fractions to twenty decimals', () => {
+    expect(parseNumberExact({ value: '1/3' })).toBe('0.33333333333333333333')
+    expect(parseNumberExact({ value: '2 5/16' })).toBe('2.3125')
+  })
+
+  it('parses what it formats', () => {
+    const config: NumbersConfig = { fractionMode: 'mixed', fixedDenominator: 16 }
+    expect(parseNumber({ value: format(3.3125, config), config })).toBe(3.3125)
+  })
+})
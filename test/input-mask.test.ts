@@ -0,0 +1,103 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { compilePattern, expandPatternConfig, Numbers } from '../src'
+
+const ACCOUNTING = '$#,##0.00;($#,##0.00)'
+
+function mask(input: string, caret: number, pattern: string = ACCOUNTING): { value: string, caret: number } {
+  const { value, caret: position } = compilePattern(pattern).mask(input, caret, { locale: undefined })
+  return { value, caret: position }
+}
+
+function createInput(config: NumbersConfig): { element: HTMLInputElement, numbers: Numbers, type: (value: string, caret?: number, key?: string) => void } {
+  const element = document.createElement('input')
+  document.body.appendChild(element)
+  const numbers = new Numbers(element, { locale: undefined, ...config })
+  const type = (value: string, caret: number = value.length, key: string = value.slice(-1)): void => {
+    element.value = value
+    element.setSelectionRange(caret, caret)
+    element.dispatchEvent(new KeyboardEvent('keyup', { key }))
+  }
+
+  return { element, numbers, type }
+}
+
+describe('pattern input masks', () => {
+  it('groups typed digits between the literals of the section', () => {
+    expect(mask('1234', 4)).toEqual({ value: '$1,234', caret: 6 })
+    expect(mask('$1,234.567', 10)).toEqual({ value: '$1,234.56', caret: 9 })
+    expect(mask('.5', 2)).toEqual({ value: '$0.5', caret: 4 })
+    expect(mask('12345', 5, '#,##0.0" kg"')).toEqual({ value: '12,345 kg', caret: 6 })
+    expect(mask('', 0)).toEqual({ value: '', caret: 0 })
+  })
+
+  it('switches to the negative section when a minus sign is typed', () => {
+    expect(mask('-', 1)).toEqual({ value: '($)', caret: 2 })
+    expect(mask('$12-', 4)).toEqual({ value: '($12)', caret: 4 })
+    expect(mask('($1-2)', 4)).toEqual({ value: '$12', caret: 2 })
+    expect(mask('($12+)', 5)).toEqual({ value: '$12', caret: 3 })
+    expect(mask('-12', 3, '#,##0.0" kg"')).toEqual({ value: '-12 kg', caret: 3 })
+  })
+
+  it('keeps the caret next to the same digit, out of the literals', () => {
+    expect(mask('$12', 1)).toEqual({ value: '$12', caret: 1 })
+    expect(mask('$1,2345', 5)).toEqual({ value: '$12,345', caret: 5 })
+    expect(mask('$1,234', 0)).toEqual({ value: '$1,234', caret: 1 })
+    expect(compilePattern(ACCOUNTING).mask('($1,234.00)', 11)).toEqual({ value: '($1,234.00)', caret: 10, start: 2, end: 10 })
+  })
+
+  it('shows literals between digits once the digits reach them', () => {
+    expect(mask('12', 2, '000-0000')).toEqual({ value: '12', caret: 2 })
+    expect(mask('12345', 5, '000-0000')).toEqual({ value: '1-2345', caret: 6 })
+    expect(mask('123-45678', 9, '000-0000')).toEqual({ value: '1234-5678', caret: 9 })
+  })
+})
+
+describe('Numbers with a format pattern', () => {
+  it('masks input while typing and formats it on blur', () => {
+    const { element, numbers, type } = createInput({ formatPattern: ACCOUNTING })
+
+    type('1234')
+    expect(element.value).toBe('$1,234')
+    expect(element.selectionStart).toBe(6)
+
+    type('$1,234-')
+    expect(element.value).toBe('($1,234)')
+    expect(element.selectionStart).toBe(7)
+    expect(numbers.getNumber()).toBe(-1234)
+
+    element.dispatchEvent(new FocusEvent('blur'))
+    expect(element.value).toBe('($1,234.00)')
+
+    numbers.remove()
+  })
+
+  it('writes set values with the pattern and reads them back', () => {
+    const { element, numbers } = createInput({ formatPattern: '0.0%' })
+
+    numbers.set(0.125)
+    expect(element.value).toBe('12.5%')
+    expect(numbers.getNumber()).toBe(0.125)
+
+    numbers.remove()
+  })
+
+  it('places the caret on focus inside the literals', () => {
+    const { element, numbers } = createInput({ formatPattern: ACCOUNTING, caretPositionOnFocus: 'end' })
+
+    numbers.set(-5)
+    element.dispatchEvent(new FocusEvent('focus'))
+    expect(element.selectionStart).toBe(6)
+
+    numbers.remove()
+  })
+
+  it('takes the options for parsing from the pattern or its name', () => {
+    expect(expandPatternConfig({ formatPattern: 'accounting' })).toMatchObject({
+      formatPattern: '$#,##0.00;($#,##0.00)',
+      currencySymbol: '$',
+      negativeBracketsTypeOnBlur: '(,)',
+    })
+    expect(expandPatternConfig({ formatPattern: '#,##0.0" kg"', decimalPlaces: 3 })).toMatchObject({ suffixText: ' kg', decimalPlaces: 3 })
+  })
+})
@@ -0,0 +1,102 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { configFromLocale, formatNumber, Numbers, parseNumber, parseNumberStrict, resolveConfig } from '../src'
+
+describe('configFromLocale', () => {
+  it('derives separators, grouping and signs from the locale', () => {
+    expect(configFromLocale('de-DE')).toMatchObject({
+      locale: 'de-DE',
+      decimalCharacter: ',',
+      digitGroupSeparator: '.',
+      digitGroupSpacing: '3',
+      minimumGroupingDigits: 1,
+      negativeSignCharacter: '-',
+      percentSign: '%',
+      currencySymbolPlacement: 's',
+    })
+
+    expect(configFromLocale('en-IN').digitGroupSpacing).toEqual([3, 2])
+    expect(configFromLocale('es-ES').minimumGroupingDigits).toBe(2)
+    expect(configFromLocale('sv-SE').negativeSignCharacter).toBe('−')
+    expect(configFromLocale('en-US').currencySymbolPlacement).toBe('p')
+  })
+
+  it('derives native digits and percent signs', () => {
+    const arabic = configFromLocale('ar-EG')
+    expect(arabic.numberingSystem).toBe('arab')
+    expect(arabic.decimalCharacter).toBe('٫')
+    expect(arabic.percentSign).toContain('٪')
+
+    expect(configFromLocale('ar-EG', { numberingSystem: 'latn' }).numberingSystem).toBe('latn')
+  })
+
+  it('follows the placement of a currency code', () => {
+    expect(configFromLocale('de-DE', { currencySymbol: 'EUR' }).currencySymbolPlacement).toBe('s')
+    expect(configFromLocale('de-CH', { currencySymbol: 'CHF' }).currencySymbolPlacement).toBe('p')
+  })
+
+  it('lets set overrides win and ignores unset ones', () => {
+    const config = configFromLocale('de-DE', { digitGroupSeparator: '\'', decimalCharacter: undefined, numberingSystem: null })
+    expect(config.digitGroupSeparator).toBe('\'')
+    expect(config.decimalCharacter).toBe(',')
+    expect(config.numberingSystem).toBe('latn')
+  })
+})
+
+describe('resolveConfig', () => {
+  it('fills in the defaults and the locale', () => {
+    expect(resolveConfig({ locale: 'fr-FR' })).toMatchObject({ decimalPlaces: 2, decimalCharacter: ',', digitGroupSeparator: ' ' })
+    expect(resolveConfig({ locale: undefined })).toMatchObject({ decimalCharacter: '.', digitGroupSeparator: ',' })
+  })
+
+  it('drops a locale tag Intl rejects and keeps the configured separators', () => {
+    const config: NumbersConfig = { locale: 'not_a_locale', decimalCharacter: ',', digitGroupSeparator: '.' }
+    expect(resolveConfig(config)).toMatchObject({ locale: undefined, decimalCharacter: ',', digitGroupSeparator: '.' })
+    expect(parseNumber({ value: '1.234,5', config })).toBe(1234.5)
+    expect(parseNumberStrict({ value: '1.234,50', config })).toMatchObject({ ok: true, value: 1234.5 })
+    expect(formatNumber({ value: 1234.5, config })).toBe('1.234,50')
+
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, config)
+    numbers.set(1234.5)
+    expect(element.value).toBe('1.234,50')
+    numbers.remove()
+  })
+
+  it('formats and parses with the same derived symbols', () => {
+    const locales = ['en-US', 'de-DE', 'fr-FR', 'de-CH', 'es-ES', 'en-IN', 'sv-SE', 'pt-BR']
+    const extras: NumbersConfig[] = [{}, { currencySymbol: 'EUR' }, { suffixText: ' kg' }, { negativeBracketsTypeOnBlur: '(,)' }]
+
+    for (const locale of locales) {
+      for (const extra of extras) {
+        const config = { locale, ...extra }
+        for (const value of [-1234567.89, 1234.5, 0.25, 12345]) {
+          const formatted = formatNumber({ value, config })
+          expect(parseNumber({ value: formatted, config })).toBe(value)
+          expect(parseNumberStrict({ value: formatted, config })).toMatchObject({ ok: true, value })
+        }
+      }
+    }
+  })
+})
+
+describe('Numbers with a locale', () => {
+  it('formats and reads the input with the derived configuration', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+
+    const numbers = new Numbers(element, { locale: 'de-DE' })
+    numbers.set(1234.5)
+    expect(element.value).toBe('1.234,50')
+    expect(numbers.getNumber()).toBe(1234.5)
+    expect(numbers.getConfig().decimalCharacter).toBe(',')
+
+    // Changing the locale derives the configuration again
+    numbers.update({ locale: 'en-US' })
+    expect(element.value).toBe('1,234.50')
+    expect(numbers.getNumber()).toBe(1234.5)
+
+    numbers.remove()
+  })
+})
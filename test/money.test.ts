@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'bun:test'
+import { createStaticRateProvider, CurrencyMismatchError, Money, Numbers } from '../src'
+
+describe('Money', () => {
+  it('holds amounts in minor units of a currency', () => {
+    const price = new Money(123450n, 'usd')
+    expect(price.currency).toBe('USD')
+    expect(price.minorUnits).toBe(2)
+    expect(price.toDecimalString()).toBe('1234.50')
+    expect(Money.of('1234.505', 'USD').minorAmount).toBe(123451n)
+    expect(Money.of(1234.5, 'JPY').toDecimalString()).toBe('1235')
+    expect(Money.of('1.2345', 'KWD').toJSON()).toEqual({ amount: '1.235', currency: 'KWD' })
+    expect(() => new Money(1.5, 'USD')).toThrow('Minor amounts are whole numbers: 1.5')
+    expect(() => new Money(1, 'ABC')).toThrow('Unknown currency: ABC')
+  })
+
+  it('adds, subtracts, multiplies, negates and compares exactly', () => {
+    const price = Money.of('0.10', 'USD')
+    expect(price.add(Money.of('0.20', 'USD')).toDecimalString()).toBe('0.30')
+    expect(price.subtract(Money.of('0.25', 'USD')).toDecimalString()).toBe('-0.15')
+    expect(Money.of('19.99', 'USD').multiply('0.075').toDecimalString()).toBe('1.50')
+    expect(Money.of('19.99', 'USD').multiply('0.075', 'D').toDecimalString()).toBe('1.49')
+    expect(Money.of('-2.50', 'EUR').multiply(3).minorAmount).toBe(-750n)
+    expect(price.negate().isNegative()).toBe(true)
+    expect(price.compare(Money.of('0.09', 'USD'))).toBe(1)
+    expect(price.equals(new Money(10, 'USD'))).toBe(true)
+    expect(Money.of(9007199254740993n, 'USD').add(new Money(1n, 'USD')).toDecimalString()).toBe('9007199254740993.01')
+  })
+
+  it('rounds to whole minor units with the .05 rounding methods', () => {
+    expect(Money.of(1, 'USD', 'N05').toDecimalString()).toBe('1.00')
+    expect(Money.of('1.234', 'USD', 'N05').toDecimalString()).toBe('1.23')
+    expect(Money.of('1.234', 'USD', 'U05').toDecimalString()).toBe('1.24')
+    expect(Money.of('1.239', 'USD', 'D05').toDecimalString()).toBe('1.23')
+    expect(Money.of('1.25', 'USD').multiply('0.333', 'N05').toDecimalString()).toBe('0.42')
+    expect(Money.of('1.25', 'USD').multiply('0.331', 'U05').toDecimalString()).toBe('0.42')
+    expect(Money.of('1.25', 'USD').multiply('0.333', 'D05').toDecimalString()).toBe('0.41')
+  })
+
+  it('refuses to mix currencies', () => {
+    const dollars = Money.of(1, 'USD')
+    expect(() => dollars.add(Money.of(1, 'EUR'))).toThrow(CurrencyMismatchError)
+    expect(() => dollars.compare(Money.of(1, 'EUR'))).toThrow('Cannot compare USD and EUR amounts')
+    expect(dollars.equals(Money.of(1, 'EUR'))).toBe(false)
+  })
+
+  it('formats with the minor units and symbol of its currency', () => {
+    expect(Money.of('1234.5', 'USD').format({ locale: undefined })).toBe('$1,234.50')
+    expect(Money.of('1234.5', 'JPY').format({ locale: 'ja-JP' })).toBe('￥1,235')
+    expect(Money.of('1234.5', 'EUR').format({ locale: 'de-DE' })).toBe('1.234,50\u00A0€')
+    expect(Money.of('1234.5', 'USD').format({ locale: undefined, currencyDisplay: 'code' })).toBe('USD\u00A01,234.50')
+  })
+
+  it('parses amounts written with a configuration', () => {
+    expect(Money.parse('1.234,50 €', { locale: 'de-DE', currencySymbol: 'EUR' })).toEqual(Money.of('1234.5', 'EUR'))
+    expect(Money.parse('$12.30', { locale: undefined, currencySymbol: '$', activeCurrency: 'USD' }).minorAmount).toBe(1230n)
+    expect(() => Money.parse('12abc', { locale: undefined, currencySymbol: 'USD' })).toThrow('Unexpected character \'a\' at position 2')
+    expect(() => Money.parse('12.345', { locale: undefined, currencySymbol: 'USD' })).toThrow('Too many decimal places')
+    expect(() => Money.parse('12', { locale: undefined, currencySymbol: '$' })).toThrow('Money.parse needs a currency code')
+  })
+})
+
+describe('Numbers with money', () => {
+  it('sets amounts of money in their currency and reads them back', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, { locale: undefined })
+    expect(numbers.getMoney()).toBeNull()
+
+    numbers.set(Money.of('1234.5', 'JPY'))
+    expect(element.value).toBe('¥1,235')
+    expect(numbers.getMoney()).toEqual(Money.of(1235, 'JPY'))
+
+    numbers.set(Money.of('9.99', 'USD'))
+    expect(element.value).toBe('$9.99')
+    expect(numbers.getMoney()?.toDecimalString()).toBe('9.99')
+
+    numbers.remove()
+  })
+
+  it('reads back the amount shown with a .05 rounding method', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, { locale: undefined, roundingMethod: 'N05', currencySymbol: '$', activeCurrency: 'USD' })
+
+    numbers.set(1.02)
+    expect(element.value).toBe('$1.00')
+    expect(numbers.getMoney()).toEqual(Money.of(1, 'USD'))
+
+    numbers.remove()
+  })
+
+  it('keeps every digit of amounts beyond the precision of numbers', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const numbers = new Numbers(element, { locale: undefined, overrideMinMaxLimits: 'ignore' })
+
+    numbers.set(Money.of('90071992547409931.23', 'USD'))
+    expect(element.value).toBe('$90,071,992,547,409,931.23')
+    expect(numbers.getMoney()?.toDecimalString()).toBe('90071992547409931.23')
+
+    numbers.clear()
+    expect(numbers.getMoney()).toBeNull()
+
+    numbers.remove()
+  })
+
+  it('switches to the currency of the amount without converting it, in one change', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+    const provider = createStaticRateProvider({ base: 'EUR', rates: { USD: '1.10' } })
+    const numbers = new Numbers(element, { locale: undefined, currencySymbol: 'EUR', convertOnCurrencyChange: true, exchangeRateProvider: provider })
+    numbers.set(Money.of(100, 'EUR'))
+
+    const formatted: string[] = []
+    element.addEventListener('numbers:change', event => formatted.push((event as CustomEvent).detail.formatted))
+    numbers.set(Money.of('12.34', 'USD'))
+    expect(formatted).toEqual(['$12.34'])
+    expect(numbers.getMoney()).toEqual(Money.of('12.34', 'USD'))
+
+    numbers.remove()
+  })
+})
@@ -0,0 +1,67 @@
+import type { NumberingSystem, NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, Numbers, parseNumber, parseNumberExact, parseNumberStrict } from '../src'
+import { digitValue, toAsciiDigits } from '../src/digits'
+import { arabicEG, arabicSA, hindiIN } from '../src/presets'
+
+describe('native digits', () => {
+  it('reads the value of digits from every script', () => {
+    expect(toAsciiDigits('٠١٢٣٤٥٦٧٨٩')).toBe('0123456789')
+    expect(toAsciiDigits('०१२३४५६७८९')).toBe('0123456789')
+    expect(toAsciiDigits('๐๑๒๓๔๕๖๗๘๙')).toBe('0123456789')
+    expect(toAsciiDigits('〇一二三四五六七八九')).toBe('0123456789')
+    expect(toAsciiDigits('𝟙𝟚𝟛')).toBe('123')
+    expect(toAsciiDigits('12abc')).toBe('12abc')
+    expect(digitValue('５')).toBe('5')
+  })
+
+  it('parses what the numbering system presets format', () => {
+    for (const config of [arabicEG, arabicSA, hindiIN]) {
+      for (const value of [0, 7.5, -1234.56, 98765432.1]) {
+        const formatted = formatNumber({ value, config })
+        expect(formatted).not.toMatch(/[1-9]/)
+        expect(parseNumber({ value: formatted, config })).toBe(value)
+        expect(parseNumberStrict({ value: formatted, config })).toMatchObject({ ok: true, value })
+      }
+    }
+
+    expect(parseNumber({ value: '١٬٢٣٤٫٥٦', config: arabicEG })).toBe(1234.56)
+    expect(parseNumberExact({ value: '१,२३४.५०', config: hindiIN })).toBe('1234.50')
+  })
+
+  it('round-trips every numbering system', () => {
+    const systems: NumberingSystem[] = ['arab', 'arabext', 'beng', 'deva', 'fullwide', 'gujr', 'guru', 'hanidec', 'khmr', 'knda', 'laoo', 'mlym', 'mong', 'mymr', 'orya', 'tamldec', 'telu', 'thai', 'tibt']
+
+    for (const numberingSystem of systems) {
+      const config: NumbersConfig = { numberingSystem }
+      const formatted = formatNumber({ value: -9876543.21, config })
+      expect(parseNumber({ value: formatted, config })).toBe(-9876543.21)
+      expect(parseNumberStrict({ value: formatted, config })).toMatchObject({ ok: true, exact: '-9876543.21' })
+    }
+  })
+
+  it('reads native and ASCII digits mixed in the same input', () => {
+    expect(parseNumber({ value: '12٣٤.5' })).toBe(1234.5)
+    expect(parseNumberStrict({ value: '۱,234.۵' })).toMatchObject({ ok: true, exact: '1234.5' })
+    expect(parseNumber({ value: '٠٥:٣٠', config: { isSpecializedType: 'time' } })).toBe(330)
+  })
+
+  it('keeps offsets in the input for digits outside the Basic Multilingual Plane', () => {
+    const result = parseNumberStrict({ value: '𑁧𑁨x' })
+    expect(result).toMatchObject({ ok: false, error: { reason: 'unexpectedCharacter', offset: 4, character: 'x' } })
+    expect(parseNumberStrict({ value: '𑁧,𑁨𑁩𑁪' })).toMatchObject({ ok: true, exact: '1234' })
+  })
+
+  it('reads native digits typed into the input', () => {
+    const element = document.createElement('input')
+    document.body.appendChild(element)
+
+    const numbers = new Numbers(element, arabicEG)
+    element.value = '١٢٣٤٫٥'
+    element.dispatchEvent(new Event('blur'))
+    expect(numbers.getNumber()).toBe(1234.5)
+    expect(element.value).toBe(formatNumber({ value: 1234.5, config: arabicEG }))
+
+    numbers.remove()
+  })
+})
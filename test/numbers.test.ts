@@ -174,7 +174,7 @@ describe('Numbers Class', () => {
 
     it('warns when setting undefined currency', () => {
       console.warn = mock()
-      instance.setCurrency('GBP')
+      instance.setCurrency('ABC')
       expect(console.warn).toHaveBeenCalled()
     })
   })
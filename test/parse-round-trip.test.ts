@@ -0,0 +1,85 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, parseNumber, parseNumberExact } from '../src'
+import { accounting } from '../src/presets'
+
+// Small seeded generator so every run checks the same cases
+function createRandom(seed: number): (max: number) => number {
+  let state = seed
+  return (max: number): number => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state % max
+  }
+}
+
+const signOptions: NumbersConfig[] = [
+  {},
+  { negativeSignCharacter: '−' },
+  { negativeSignCharacter: '‒', positiveSignCharacter: '⁺', showPositiveSign: true },
+  { showPositiveSign: true },
+]
+const bracketOptions: NumbersConfig[] = [{}, { negativeBracketsTypeOnBlur: '(,)' }, { negativeBracketsTypeOnBlur: '[,]' }, { negativeBracketsTypeOnBlur: '<,>' }]
+const currencyOptions: NumbersConfig[] = [
+  {},
+  { currencySymbol: '$' },
+  { currencySymbol: '€', currencySymbolPlacement: 's' },
+  { currencySymbol: 'CHF ' },
+  { locale: 'en-US', currencySymbol: 'USD' },
+]
+const suffixOptions: NumbersConfig[] = [{}, { suffixText: ' kg' }, { suffixText: ' pcs' }]
+const separatorOptions: NumbersConfig[] = [
+  { locale: undefined },
+  { locale: undefined, digitGroupSeparator: '.', decimalCharacter: ',' },
+  { locale: undefined, digitGroupSeparator: ' ', decimalCharacter: ',' },
+  { locale: undefined, digitGroupSeparator: '\'', decimalCharacter: '.' },
+]
+const placementOptions: NumbersConfig['negativePositiveSignPlacement'][] = [null, 'l', 'r', 'p', 's']
+
+describe('parsing is the inverse of formatting', () => {
+  it('reads accounting brackets back as negative values', () => {
+    expect(parseNumber({ value: '($1,234.56)', config: accounting })).toBe(-1234.56)
+    expect(parseNumber({ value: '$1,234.56', config: accounting })).toBe(1234.56)
+    expect(parseNumber({ value: '[1,234.56]', config: { negativeBracketsTypeOnBlur: '[,]' } })).toBe(-1234.56)
+    expect(parseNumberExact({ value: '(0.00)', config: accounting })).toBe('0.00')
+  })
+
+  it('reads custom and locale sign characters', () => {
+    expect(parseNumber({ value: '−1,234.56', config: { negativeSignCharacter: '−' } })).toBe(-1234.56)
+    expect(parseNumber({ value: '1,234.56−', config: { negativeSignCharacter: '−' } })).toBe(-1234.56)
+    expect(parseNumber({ value: '⁺5.00', config: { positiveSignCharacter: '⁺' } })).toBe(5)
+
+    const swedish = formatNumber({ value: -1234.5, config: { locale: 'sv-SE' } })
+    expect(parseNumber({ value: swedish, config: { locale: 'sv-SE', decimalCharacter: ',', digitGroupSeparator: ' ' } })).toBe(-1234.5)
+  })
+
+  it('reads the locale symbol of a currency code', () => {
+    const config: NumbersConfig = { locale: 'de-DE', currencySymbol: 'EUR', decimalCharacter: ',', digitGroupSeparator: '.' }
+    expect(parseNumberExact({ value: formatNumber({ value: '-1234.56', config }), config })).toBe('-1234.56')
+  })
+
+  it('gives back the formatted value for random values and option combinations', () => {
+    const random = createRandom(20240607)
+    const pick = <T>(options: T[]): T => options[random(options.length)]
+
+    for (let run = 0; run < 500; run++) {
+      const decimalPlaces = random(4)
+      const config: NumbersConfig = {
+        ...pick(separatorOptions),
+        ...pick(signOptions),
+        ...pick(bracketOptions),
+        ...pick(currencyOptions),
+        ...pick(suffixOptions),
+        negativePositiveSignPlacement: pick(placementOptions),
+        decimalPlaces,
+      }
+
+      const integer = String(random(10 ** (1 + random(9))))
+      const fraction = Array.from({ length: decimalPlaces }, () => random(10)).join('')
+      const negative = random(2) === 1 && /[1-9]/.test(integer + fraction)
+      const value = `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`
+
+      const formatted = formatNumber({ value, config })
+      expect({ formatted, parsed: parseNumberExact({ value: formatted, config }) }).toEqual({ formatted, parsed: value })
+    }
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'bun:test'
+import { applyFormatPattern, applyFormatPatternToParts, applyFormatPatternWithColor, compilePattern, PatternSyntaxError } from '../src'
+
+function format(value: number | string, pattern: string, width?: number): string {
+  return applyFormatPattern({ value, pattern, width })
+}
+
+describe('compilePattern', () => {
+  it('compiles a pattern once and reuses it', () => {
+    const compiled = compilePattern('#,##0.00;(#,##0.00)')
+
+    expect(compilePattern('#,##0.00;(#,##0.00)')).toBe(compiled)
+    expect(compiled.sections).toHaveLength(2)
+    expect(compiled.sections[0].number).toMatchObject({ integer: '###0', fraction: '00', grouping: [3], scale: 0 })
+    expect(compiled.format(-1234.5)).toBe('(1,234.50)')
+    expect(compiled.format(1234.5, { locale: 'de-DE' })).toBe('1.234,50')
+  })
+
+  it('picks the positive, negative, zero and text sections like a spreadsheet', () => {
+    const pattern = '0.00;[$-409]-0.00;"zero";"Text: "@'
+
+    expect(format(1.5, pattern)).toBe('1.50')
+    expect(format(-1.5, pattern)).toBe('-1.50')
+    expect(format(0, pattern)).toBe('zero')
+    expect(format('abc', pattern)).toBe('Text: abc')
+    expect(format('abc', '0.00')).toBe('abc')
+    expect(format(-3, '0;;')).toBe('')
+  })
+
+  it('writes quoted, escaped and unquoted literals', () => {
+    expect(format(12, '0 "kg"')).toBe('12 kg')
+    expect(format(12, '0\\ \\m')).toBe('12 m')
+    expect(format(1234.5, '#,##0.00 \'EUR\'')).toBe('1,234.50 EUR')
+    expect(format(5551234, '000-0000')).toBe('555-1234')
+    expect(format(123456789, '000-00-0000')).toBe('123-45-6789')
+  })
+
+  it('pads with ? placeholders and fills with *', () => {
+    expect(format(1.5, '0.0??')).toBe('1.5  ')
+    expect(format(5, '???0')).toBe('   5')
+    expect(format(5, '$* #,##0.00', 12)).toBe('$       5.00')
+    expect(format(5, '$* #,##0.00')).toBe('$5.00')
+
+    const accounting = '_($* #,##0.00_);_($* (#,##0.00);_($* "-"??_);_(@_)'
+    expect(format(1234.5, accounting, 14)).toBe(' $   1,234.50 ')
+    expect(format(-5, accounting, 14)).toBe(' $      (5.00)')
+    expect(format(0, accounting, 14)).toBe(' $        -   ')
+  })
+
+  it('scales by percent, per mille and trailing commas', () => {
+    expect(format(0.5, '0.0‰')).toBe('500.0‰')
+    expect(format(0.1234, '0.0%')).toBe('12.3%')
+    expect(format(1234567, '0.0,,"M"')).toBe('1.2M')
+    expect(format(1234567, '#,##0,')).toBe('1,235')
+  })
+
+  it('writes exponents the way Excel does', () => {
+    expect(format(1234.56, '0.00E+00')).toBe('1.23E+03')
+    expect(format(0.0001234, '0.00E-00')).toBe('1.23E-04')
+    expect(format(1234.56, '0.00E-00')).toBe('1.23E03')
+    expect(format(9.9996, '0.00E+00')).toBe('1.00E+01')
+    expect(format(12345, '##0.0E+0')).toBe('12.3E+3')
+    expect(format(999960, '##0.0E+0')).toBe('1.0E+6')
+    expect(format(-0.5, '0.0E+0')).toBe('-5.0E-1')
+  })
+
+  it('groups with the sizes in the pattern', () => {
+    expect(format(12345678, '#,##,##0')).toBe('1,23,45,678')
+    expect(format(1234.5, 'General')).toBe('1234.5')
+    expect(format(1.5, '.00')).toBe('1.50')
+    expect(format(0.5, '#.##')).toBe('.5')
+  })
+
+  it('types the parts of the output', () => {
+    expect(applyFormatPatternToParts({ value: -1.5, pattern: '[$€-407] +0.00' })).toEqual([
+      { type: 'currency', value: '€' },
+      { type: 'literal', value: ' ' },
+      { type: 'sign', value: '-' },
+      { type: 'integer', value: '1' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '50' },
+    ])
+  })
+
+  it('reports syntax errors with their position', () => {
+    const errorOf = (pattern: string): PatternSyntaxError | null => {
+      try {
+        compilePattern(pattern)
+        return null
+      }
+      catch (error) {
+        return error as PatternSyntaxError
+      }
+    }
+
+    expect(errorOf('0 "kg')).toMatchObject({ name: 'PatternSyntaxError', position: 2, pattern: '0 "kg' })
+    expect(errorOf('0.0.0')).toMatchObject({ position: 3 })
+    expect(errorOf('0;0;0;@;0')).toMatchObject({ position: 7 })
+    expect(errorOf('0.0E+')).toMatchObject({ position: 3 })
+    expect(errorOf('0\\')).toMatchObject({ position: 1 })
+    expect(errorOf('0;0;0;0')).toMatchObject({ position: 6 })
+    expect(errorOf('0;0;0;0;0')).toMatchObject({ message: 'A pattern has at most four sections at position 7 in pattern 0;0;0;0;0', position: 7 })
+    expect(errorOf('@@.0')).toMatchObject({ position: 0 })
+    expect(errorOf('[h]0')?.message).toBe('Unsupported code [h] at position 0 in pattern [h]0')
+    expect(errorOf('0.00')).toBeNull()
+  })
+})
+
+describe('conditions and colours', () => {
+  it('picks the first section whose condition holds, then the one without', () => {
+    const pattern = '[>=1000000]0.0,,"M";[>=1000]0.0,"K";0'
+
+    expect(format(2500000, pattern)).toBe('2.5M')
+    expect(format(1500, pattern)).toBe('1.5K')
+    expect(format(5, pattern)).toBe('5')
+    expect(format(-2000, pattern)).toBe('-2000')
+    expect(format(100, '[<=100]"low";[<=1000]"mid";"high"')).toBe('low')
+    expect(format(100.5, '[<=100]"low";[<=1000]"mid";"high"')).toBe('mid')
+    expect(format(5000, '[<=100]"low";[<=1000]"mid";"high"')).toBe('high')
+  })
+
+  it('writes values of a negative-only section without their sign', () => {
+    expect(format(-5, '[<0](#,##0.00);#,##0.00')).toBe('(5.00)')
+    expect(format(5, '[<0](#,##0.00);#,##0.00')).toBe('5.00')
+    expect(format(-5, '[<10]0;0')).toBe('-5')
+  })
+
+  it('returns the colour of the section with the output', () => {
+    const pattern = '[Blue]#,##0.00;[Red](#,##0.00);0.00'
+
+    expect(applyFormatPatternWithColor({ value: -1234.5, pattern })).toMatchObject({
+      value: '(1,234.50)',
+      section: 1,
+      color: 'red',
+      className: 'numbers-red',
+    })
+    expect(applyFormatPatternWithColor({ value: 0, pattern })).toMatchObject({ value: '0.00', section: 2, color: null, className: null })
+    expect(applyFormatPatternWithColor({ value: 1, pattern: '[Color10]0' })).toMatchObject({ color: '#008000', className: 'numbers-color10' })
+    expect(compilePattern(pattern).sections.map(section => section.color)).toEqual(['blue', 'red', null])
+    expect(compilePattern('[>=1000]0').sections[0].condition).toEqual({ operator: '>=', value: 1000 })
+  })
+
+  it('reports misplaced and unknown codes', () => {
+    expect(() => compilePattern('[Red][Blue]0')).toThrow('Second colour in a section at position 5')
+    expect(() => compilePattern('0;0;[>1]0')).toThrow('Only the first two sections can have a condition at position 4')
+    expect(() => compilePattern('[Color57]0')).toThrow('Unknown colour [Color57] at position 0')
+    expect(() => compilePattern('[>=]0')).toThrow('Unsupported code [>=] at position 0')
+  })
+})
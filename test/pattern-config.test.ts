@@ -0,0 +1,74 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { applyFormatPattern, configToPattern, formatNumber, formatPatterns, patternToConfig } from '../src'
+
+describe('configToPattern', () => {
+  it('writes the digits, currency and suffix of a configuration', () => {
+    expect(configToPattern({})).toEqual({ pattern: '#,##0.00', name: null, lossy: [] })
+    expect(configToPattern({ decimalPlaces: 1, allowDecimalPadding: false, suffixText: ' kg' }).pattern).toBe('#,##0.#" kg"')
+    expect(configToPattern({ currencySymbol: 'CHF ', decimalPlaces: 0 }).pattern).toBe('[$CHF] #,##0;[$CHF] -#,##0')
+    expect(configToPattern({ currencySymbol: ' €', currencySymbolPlacement: 's' }).pattern).toBe('#,##0.00 €')
+    expect(configToPattern({ digitGroupSpacing: '2s', showPositiveSign: true }).pattern).toBe('+#,##,##0.00')
+    expect(configToPattern({ maximumSignificantDigits: 3 }).pattern).toBe('#,@##')
+    expect(configToPattern({ fractionMode: 'mixed', maximumDenominator: 99 }).pattern).toBe('#,### ##/##')
+  })
+
+  it('names the patterns in formatPatterns', () => {
+    const accounting = configToPattern({ currencySymbol: '$', negativeBracketsTypeOnBlur: '(,)' })
+    expect(accounting).toEqual({ pattern: formatPatterns.accounting, name: 'accounting', lossy: [] })
+    expect(configToPattern({ currencySymbol: '$', negativePositiveSignPlacement: 'p' }).name).toBe('currency')
+  })
+
+  it('reports the options a pattern cannot express', () => {
+    expect(configToPattern({ decimalPlaces: 1, roundingMethod: 'B' }).lossy).toEqual(['roundingMethod'])
+    expect(configToPattern({ locale: 'de-DE', currencySymbol: 'EUR' })).toMatchObject({ pattern: '#,##0.00\u00A0€', lossy: ['locale', 'currencySymbol'] })
+    expect(configToPattern({ allowDecimalPadding: 'floats', digitGroupSeparator: '\'' }).lossy).toEqual(['digitGroupSeparator', 'allowDecimalPadding'])
+    expect(configToPattern({ fractionMode: 'mixed' }).lossy).toEqual(['maximumDenominator'])
+  })
+
+  it('formats like the configuration it came from', () => {
+    const configs: NumbersConfig[] = [
+      { currencySymbol: '$' },
+      { currencySymbol: '€', negativeBracketsTypeOnBlur: '(,)', decimalPlaces: 0 },
+      { suffixText: ' m²', negativePositiveSignPlacement: 'r', digitGroupSpacing: [3, 2] },
+      { maximumSignificantDigits: 4 },
+    ]
+
+    for (const config of configs) {
+      const { pattern } = configToPattern(config)
+      for (const value of [1234567.891, -1234.5, 0.5]) {
+        expect(applyFormatPattern({ value, pattern, config: { locale: undefined } })).toBe(formatNumber({ value, config: { locale: undefined, ...config } }))
+      }
+    }
+  })
+})
+
+describe('patternToConfig', () => {
+  it('reads patterns and the names of predefined ones', () => {
+    expect(patternToConfig('accounting')).toEqual({
+      config: { digitGroupSpacing: '3', decimalPlaces: 2, allowDecimalPadding: true, currencySymbol: '$', currencySymbolPlacement: 'p', negativeBracketsTypeOnBlur: '(,)' },
+      lossy: [],
+    })
+    expect(patternToConfig('#,##0.00 €').config).toMatchObject({ currencySymbol: ' €', currencySymbolPlacement: 's' })
+    expect(patternToConfig('#,##0.00;#,##0.00-').config).toMatchObject({ negativePositiveSignPlacement: 'r' })
+    expect(patternToConfig('# ??/??').config).toEqual({ useGrouping: false, fractionMode: 'mixed', maximumDenominator: 99 })
+    expect(patternToConfig('@@@').config).toMatchObject({ minimumSignificantDigits: 3, maximumSignificantDigits: 3 })
+  })
+
+  it('reports the parts a configuration cannot express', () => {
+    expect(patternToConfig('[Blue]#,##0.00;[Red](#,##0.00);0.00')).toMatchObject({ config: { negativeBracketsTypeOnBlur: '(,)' }, lossy: ['color', 'zeroSection'] })
+    expect(patternToConfig('000-0000').lossy).toEqual(['placeholders', 'literal'])
+    expect(patternToConfig('percent').lossy).toEqual(['scale'])
+    expect(patternToConfig('_($* #,##0.00_)').lossy).toEqual(['fill'])
+    expect(patternToConfig('$#,##0.00;$(#,##0.00)').lossy).toEqual(['negativeSection'])
+    expect(patternToConfig('0.000E+00').lossy).toEqual(['exponent'])
+  })
+
+  it('round-trips the patterns a configuration can express', () => {
+    for (const name of ['decimal', 'currency', 'currencyEuro', 'accounting', 'fixed4', 'integer'] as const) {
+      const { config, lossy } = patternToConfig(name)
+      expect(lossy).toEqual([])
+      expect(configToPattern(config).pattern).toBe(formatPatterns[name])
+    }
+  })
+})
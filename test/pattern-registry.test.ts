@@ -0,0 +1,103 @@
+import type { PatternName } from '../src'
+import { afterEach, describe, expect, it, mock } from 'bun:test'
+import { applyPredefinedPattern, expandPatternConfig, formatPatterns, getPattern, listPatterns, Numbers, patternToConfig, registerPattern, unregisterPattern } from '../src'
+
+declare module '../src' {
+  interface PatternRegistry {
+    invoice: true
+    weight: true
+    accounting: true
+  }
+}
+
+function createMockElement(value = ''): HTMLInputElement {
+  return {
+    tagName: 'input',
+    value,
+    textContent: '',
+    classList: { add: mock(), remove: mock(), contains: () => false },
+    style: {},
+    dispatchEvent: mock(),
+    addEventListener: mock(),
+    removeEventListener: mock(),
+    hasAttribute: () => false,
+    getAttribute: () => null,
+    setAttribute: mock(),
+  } as unknown as HTMLInputElement
+}
+
+afterEach(() => {
+  unregisterPattern('invoice')
+  unregisterPattern('weight')
+  unregisterPattern('accounting')
+})
+
+describe('pattern registry', () => {
+  it('registers, looks up and removes named patterns', () => {
+    const invoice = registerPattern('invoice', '#,##0.00 "EUR"', { roundingMethod: 'U' })
+    expect(invoice).toEqual({ name: 'invoice', pattern: '#,##0.00 "EUR"', config: { roundingMethod: 'U' }, predefined: false })
+    expect(getPattern('invoice')).toBe(invoice)
+    expect(getPattern('decimal')).toEqual({ name: 'decimal', pattern: formatPatterns.decimal, config: {}, predefined: true })
+
+    expect(unregisterPattern('invoice')).toBe(true)
+    expect(unregisterPattern('invoice')).toBe(false)
+    expect(unregisterPattern('decimal')).toBe(false)
+    expect(getPattern('invoice')).toBeNull()
+  })
+
+  it('lists predefined patterns, then registered ones', () => {
+    registerPattern('weight', '#,##0.0" kg"')
+    const names = listPatterns().map(entry => entry.name)
+    expect(names.slice(0, Object.keys(formatPatterns).length)).toEqual(Object.keys(formatPatterns))
+    expect(names.at(-1)).toBe('weight')
+  })
+
+  it('lets a registered pattern replace a predefined one until it is removed', () => {
+    registerPattern('accounting', '#,##0.00;[Red]-#,##0.00')
+    expect(listPatterns().filter(entry => entry.name === 'accounting')).toEqual([getPattern('accounting')!])
+    expect(applyPredefinedPattern({ value: -5, patternName: 'accounting' })).toBe('-5.00')
+
+    unregisterPattern('accounting')
+    expect(applyPredefinedPattern({ value: -5, patternName: 'accounting' })).toBe('($5.00)')
+  })
+
+  it('rejects unreadable patterns and empty names', () => {
+    expect(() => registerPattern('invoice', '0.0/0')).toThrow('Fraction bar after a decimal point or exponent')
+    expect(() => registerPattern(' ' as PatternName, '0')).toThrow('Pattern names cannot be empty')
+    expect(getPattern('invoice')).toBeNull()
+  })
+
+  it('applies registered patterns with their options', () => {
+    registerPattern('invoice', '#,##0.00 "EUR"', { roundingMethod: 'U' })
+    expect(applyPredefinedPattern({ value: 1234.561, patternName: 'invoice' })).toBe('1,234.57 EUR')
+    expect(applyPredefinedPattern({ value: 1234.561, patternName: 'invoice', config: { roundingMethod: 'S' } })).toBe('1,234.56 EUR')
+    expect(patternToConfig('invoice').config).toMatchObject({ decimalPlaces: 2, suffixText: ' EUR' })
+  })
+})
+
+describe('pattern option', () => {
+  it('expands a named pattern into options, keeping the ones set beside it', () => {
+    registerPattern('weight', '#,##0.0" kg"', { roundingMethod: 'D' })
+    expect(expandPatternConfig({ pattern: 'weight', decimalPlaces: 2 })).toMatchObject({ suffixText: ' kg', roundingMethod: 'D', decimalPlaces: 2 })
+    expect(expandPatternConfig({ decimalPlaces: 2 })).toEqual({ decimalPlaces: 2 })
+    expect(() => expandPatternConfig({ pattern: 'invoice' })).toThrow('Unknown format pattern: invoice')
+  })
+
+  it('configures Numbers instances by pattern name', () => {
+    registerPattern('weight', '#,##0.0" kg"')
+    const element = createMockElement()
+    const instance = new Numbers(element, { pattern: 'weight', locale: undefined })
+    instance.set(1234.56)
+    expect(element.value).toBe('1,234.6 kg')
+
+    instance.update({ pattern: 'currency' })
+    instance.set(1234.56)
+    expect(element.value).toBe('$1,234.56')
+    expect(instance.getConfig().pattern).toBe('currency')
+  })
+
+  it('types pattern names registered by declaration merging', () => {
+    // @ts-expect-error not a predefined or registered name
+    expect(() => getPattern('unknown')).not.toThrow()
+  })
+})
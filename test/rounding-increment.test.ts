@@ -0,0 +1,63 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, parseNumberStrict, roundNumber } from '../src'
+import { getCashRoundingIncrement } from '../src/currencies'
+import { franc } from '../src/presets'
+
+function format(value: number | string, config: NumbersConfig): string {
+  return formatNumber({ value, config: { locale: undefined, ...config } })
+}
+
+describe('roundingIncrement', () => {
+  it('rounds to multiples of the increment', () => {
+    expect(format(1.13, { roundingIncrement: 0.25 })).toBe('1.25')
+    expect(format(1.37, { roundingIncrement: '0.10' })).toBe('1.40')
+    expect(format(1234, { roundingIncrement: 50 })).toBe('1,250.00')
+    expect(format(1499, { roundingIncrement: 1000, decimalPlaces: 0 })).toBe('1,000')
+    expect(format(7.3, { roundingIncrement: 5, decimalPlaces: 0 })).toBe('5')
+  })
+
+  it('combines with every rounding direction', () => {
+    expect(format(1.01, { roundingIncrement: 0.25, roundingMethod: 'C' })).toBe('1.25')
+    expect(format(1.24, { roundingIncrement: 0.25, roundingMethod: 'F' })).toBe('1.00')
+    expect(format(-1.125, { roundingIncrement: 0.25, roundingMethod: 'B' })).toBe('-1.00')
+    expect(format(-1.375, { roundingIncrement: 0.25, roundingMethod: 'B' })).toBe('-1.50')
+    expect(format(-1.125, { roundingIncrement: 0.25 })).toBe('-1.25')
+  })
+
+  it('keeps the decimals of the increment whatever decimalPlaces is', () => {
+    expect(format(1.02, { roundingIncrement: 0.05, decimalPlaces: 0 })).toBe('1.00')
+    expect(format(1.07, { roundingMethod: 'N05', decimalPlaces: 0 })).toBe('1.05')
+    expect(format(1.07, { roundingIncrement: 0.05, decimalPlaces: 3 })).toBe('1.050')
+
+    const config: NumbersConfig = { roundingIncrement: 0.05, decimalPlaces: 0 }
+    expect(parseNumberStrict({ value: format(1.07, config), config })).toMatchObject({ ok: true, exact: '1.05' })
+  })
+
+  it('is available in roundNumber', () => {
+    expect(roundNumber(1.13, 2, 'S', 0.1)).toBe(1.1)
+    expect(roundNumber('1234.5', 0, 'C', 100)).toBe('1300')
+    expect(roundNumber(1.13, 2, 'S')).toBe(1.13)
+  })
+})
+
+describe('cash rounding', () => {
+  it('rounds currency codes to their smallest cash amount', () => {
+    expect(formatNumber({ value: 12.34, config: { locale: 'de-CH', currencySymbol: 'CHF', cashRounding: true } })).toBe('CHF\u00A012.35')
+    expect(formatNumber({ value: 12.5, config: { locale: 'sv-SE', currencySymbol: 'SEK', cashRounding: true } })).toBe('13,00\u00A0kr')
+    expect(formatNumber({ value: 12.74, config: { locale: 'de-DE', currencySymbol: 'EUR', cashRounding: true } })).toBe('12,74\u00A0€')
+    expect(formatNumber({ value: 12.34, config: { locale: 'de-CH', currencySymbol: 'CHF' } })).toBe('CHF\u00A012.34')
+  })
+
+  it('knows the cash increments of currencies', () => {
+    expect(getCashRoundingIncrement('CHF')).toBe('0.05')
+    expect(getCashRoundingIncrement('dkk')).toBe('0.50')
+    expect(getCashRoundingIncrement('SEK')).toBe('1')
+    expect(getCashRoundingIncrement('USD')).toBeNull()
+  })
+
+  it('rounds the franc preset to 5 rappen', () => {
+    expect(formatNumber({ value: 1234.56, config: franc })).toBe('CHF 1\'234.55')
+    expect(formatNumber({ value: 1234.58, config: franc })).toBe('CHF 1\'234.60')
+  })
+})
@@ -0,0 +1,43 @@
+import type { RoundingMethod } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, roundNumber } from '../src'
+
+// Reference table of rounding to an integer, one column per value
+const values = ['-2.5', '-1.6', '-1.5', '-1.1', '-0.5', '0.5', '1.1', '1.5', '1.6', '2.5']
+const reference: Record<Exclude<RoundingMethod, 'N05' | 'U05' | 'D05'>, string[]> = {
+  S: ['-3', '-2', '-2', '-1', '-1', '1', '1', '2', '2', '3'],
+  A: ['-2', '-2', '-1', '-1', '0', '1', '1', '2', '2', '3'],
+  s: ['-2', '-2', '-1', '-1', '0', '0', '1', '1', '2', '2'],
+  a: ['-3', '-2', '-2', '-1', '-1', '0', '1', '1', '2', '2'],
+  B: ['-2', '-2', '-2', '-1', '0', '0', '1', '2', '2', '2'],
+  U: ['-3', '-2', '-2', '-2', '-1', '1', '2', '2', '2', '3'],
+  D: ['-2', '-1', '-1', '-1', '0', '0', '1', '1', '1', '2'],
+  C: ['-2', '-1', '-1', '-1', '0', '1', '2', '2', '2', '3'],
+  F: ['-3', '-2', '-2', '-2', '-1', '0', '1', '1', '1', '2'],
+  halfAwayFromZero: ['-3', '-2', '-2', '-1', '-1', '1', '1', '2', '2', '3'],
+  halfTowardZero: ['-2', '-2', '-1', '-1', '0', '0', '1', '1', '2', '2'],
+  halfCeiling: ['-2', '-2', '-1', '-1', '0', '1', '1', '2', '2', '3'],
+  halfFloor: ['-3', '-2', '-2', '-1', '-1', '0', '1', '1', '2', '2'],
+  halfOdd: ['-3', '-2', '-1', '-1', '-1', '1', '1', '1', '2', '3'],
+}
+
+describe('rounding methods', () => {
+  it('match the reference table', () => {
+    for (const [method, expected] of Object.entries(reference) as [RoundingMethod, string[]][]) {
+      expect(values.map(value => roundNumber(value, 0, method))).toEqual(expected)
+    }
+  })
+
+  it('round to .05 in the direction of their letter', () => {
+    expect(['-1.025', '-1.01', '1.01', '1.025', '1.04'].map(value => roundNumber(value, 2, 'N05'))).toEqual(['-1.05', '-1.00', '1.00', '1.05', '1.05'])
+    expect(['-1.01', '1.01', '1.05'].map(value => roundNumber(value, 2, 'U05'))).toEqual(['-1.05', '1.05', '1.05'])
+    expect(['-1.09', '1.09', '1.05'].map(value => roundNumber(value, 2, 'D05'))).toEqual(['-1.05', '1.05', '1.05'])
+  })
+
+  it('apply to formatting and rounding increments', () => {
+    expect(formatNumber({ value: -1.235, config: { roundingMethod: 'U', locale: undefined } })).toBe('-1.24')
+    expect(formatNumber({ value: -1.235, config: { roundingMethod: 'halfOdd', locale: undefined } })).toBe('-1.23')
+    expect(formatNumber({ value: 1.375, config: { roundingMethod: 'halfOdd', roundingIncrement: 0.25, locale: undefined } })).toBe('1.25')
+    expect(formatNumber({ value: -1.125, config: { roundingMethod: 'A', roundingIncrement: 0.25, locale: undefined } })).toBe('-1.00')
+  })
+})
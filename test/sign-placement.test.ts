@@ -0,0 +1,91 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, parseNumber, parseNumberExact } from '../src'
+import { dollar, euro } from '../src/presets'
+
+type Placement = NumbersConfig['negativePositiveSignPlacement']
+
+const placements: Placement[] = [null, 'l', 'r', 'p', 's']
+
+describe('negativePositiveSignPlacement', () => {
+  it('places the sign around a prefix currency symbol', () => {
+    const config: NumbersConfig = { locale: undefined, currencySymbol: '$', suffixText: ' ea' }
+    const expected: Record<string, string> = {
+      l: '$-1.00 ea',
+      r: '$1.00- ea',
+      p: '-$1.00 ea',
+      s: '$1.00 ea-',
+    }
+
+    for (const [placement, result] of Object.entries(expected)) {
+      expect(formatNumber({ value: -1, config: { ...config, negativePositiveSignPlacement: placement as Placement } })).toBe(result)
+    }
+    expect(formatNumber({ value: -1, config })).toBe('$-1.00 ea')
+  })
+
+  it('places the sign around a suffix currency symbol', () => {
+    const config: NumbersConfig = { locale: 'de-DE', currencySymbol: 'EUR' }
+
+    expect(formatNumber({ value: -1234.5, config: { ...config, negativePositiveSignPlacement: 'l' } })).toBe('-1.234,50\u00A0€')
+    expect(formatNumber({ value: -1234.5, config: { ...config, negativePositiveSignPlacement: 'r' } })).toBe('1.234,50-\u00A0€')
+    expect(formatNumber({ value: -1234.5, config: { ...config, negativePositiveSignPlacement: 'p' } })).toBe('-1.234,50\u00A0€')
+    expect(formatNumber({ value: -1234.5, config: { ...config, negativePositiveSignPlacement: 's' } })).toBe('1.234,50\u00A0€-')
+  })
+
+  it('places positive signs the same way', () => {
+    const config: NumbersConfig = { locale: undefined, currencySymbol: '$', showPositiveSign: true }
+
+    expect(formatNumber({ value: 1, config: { ...config, negativePositiveSignPlacement: 'r' } })).toBe('$1.00+')
+    expect(formatNumber({ value: 1, config: { ...config, negativePositiveSignPlacement: 'p' } })).toBe('+$1.00')
+  })
+
+  it('applies to scientific and compact notation', () => {
+    expect(formatNumber({ value: -1234567, config: { useScientificNotation: true, negativePositiveSignPlacement: 'r' } })).toBe('1.23e+6-')
+    expect(formatNumber({ value: -2500000, config: { locale: undefined, useCompactNotation: true, currencySymbol: '$', negativePositiveSignPlacement: 'p' } }))
+      .toBe('-$2.5M')
+  })
+
+  it('is ignored when negative brackets are used', () => {
+    for (const placement of placements) {
+      expect(formatNumber({ value: -1, config: { currencySymbol: '$', negativeBracketsTypeOnBlur: '(,)', negativePositiveSignPlacement: placement } }))
+        .toBe('($1.00)')
+    }
+  })
+
+  it('follows the placement of the presets', () => {
+    expect(formatNumber({ value: -1234.5, config: dollar })).toBe('$-1,234.50')
+    expect(formatNumber({ value: -1234.5, config: { ...euro, negativePositiveSignPlacement: 's' } })).toMatch(/-$/)
+  })
+})
+
+describe('parsing signs in any placement', () => {
+  it('reads trailing signs and signs after the currency symbol', () => {
+    const config: NumbersConfig = { locale: undefined, currencySymbol: '$', suffixText: ' ea' }
+
+    expect(parseNumber({ value: '$-1,234.50', config })).toBe(-1234.5)
+    expect(parseNumber({ value: '$1,234.50-', config })).toBe(-1234.5)
+    expect(parseNumber({ value: '1,234.50 -', config })).toBe(-1234.5)
+    expect(parseNumber({ value: '$1,234.50- ea', config })).toBe(-1234.5)
+    expect(parseNumber({ value: '$1,234.50 ea-', config })).toBe(-1234.5)
+    expect(parseNumber({ value: '1.23e+6-' })).toBe(-1230000)
+    expect(parseNumber({ value: '$1,234.50+', config })).toBe(1234.5)
+  })
+
+  it('round-trips every placement', () => {
+    const configs: NumbersConfig[] = [
+      { locale: undefined, currencySymbol: '$' },
+      { locale: undefined, currencySymbol: '€', currencySymbolPlacement: 's', suffixText: ' net' },
+      { locale: 'de-DE', currencySymbol: 'EUR', decimalCharacter: ',', digitGroupSeparator: '.' },
+      { locale: undefined, showPositiveSign: true },
+    ]
+
+    for (const config of configs) {
+      for (const negativePositiveSignPlacement of placements) {
+        for (const value of ['-1234.50', '0.01', '-0.01', '98765.43']) {
+          const formatted = formatNumber({ value, config: { ...config, negativePositiveSignPlacement } })
+          expect(parseNumberExact({ value: formatted, config: { ...config, negativePositiveSignPlacement } })).toBe(value)
+        }
+      }
+    }
+  })
+})
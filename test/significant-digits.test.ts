@@ -0,0 +1,57 @@
+import type { NumbersConfig } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { applyFormatPattern, formatNumber, parseNumberStrict } from '../src'
+
+function format(value: number | string, config: NumbersConfig): string {
+  return formatNumber({ value, config: { locale: undefined, ...config } })
+}
+
+describe('significant digits', () => {
+  it('rounds to the maximum and pads to the minimum', () => {
+    expect(format(1234.5678, { maximumSignificantDigits: 3 })).toBe('1,230')
+    expect(format(0.000123456, { maximumSignificantDigits: 3 })).toBe('0.000123')
+    expect(format(9.996, { maximumSignificantDigits: 3 })).toBe('10')
+    expect(format(9.996, { minimumSignificantDigits: 3, maximumSignificantDigits: 3 })).toBe('10.0')
+    expect(format(1.5, { minimumSignificantDigits: 4 })).toBe('1.500')
+    expect(format(0, { minimumSignificantDigits: 3 })).toBe('0.00')
+    expect(format('123456789012345678.9', { maximumSignificantDigits: 20 })).toBe('123,456,789,012,345,678.9')
+  })
+
+  it('uses the rounding method', () => {
+    expect(format(1.2349, { maximumSignificantDigits: 3, roundingMethod: 'D' })).toBe('1.23')
+    expect(format(1.2351, { maximumSignificantDigits: 3, roundingMethod: 'D' })).toBe('1.23')
+    expect(format(0.1225, { maximumSignificantDigits: 3, roundingMethod: 'B' })).toBe('0.122')
+    expect(format(-0.1225, { maximumSignificantDigits: 3 })).toBe('-0.123')
+  })
+
+  it('picks between decimal places and significant digits with roundingPriority', () => {
+    const config: NumbersConfig = { decimalPlaces: 1, maximumSignificantDigits: 3 }
+
+    expect(format(1.23456, config)).toBe('1.23')
+    expect(format(1.23456, { ...config, roundingPriority: 'lessPrecision' })).toBe('1.2')
+    expect(format(1.23456, { ...config, roundingPriority: 'morePrecision' })).toBe('1.23')
+    expect(format(1.23456, { ...config, decimalPlaces: 4, roundingPriority: 'morePrecision' })).toBe('1.2346')
+  })
+
+  it('applies to locale, scientific and compact output', () => {
+    expect(formatNumber({ value: 1234.5678, config: { locale: 'de-DE', maximumSignificantDigits: 5 } })).toBe('1.234,6')
+    expect(format(123456, { maximumSignificantDigits: 3, useScientificNotation: true, scientificNotationThreshold: 1000 })).toBe('1.23e+5')
+    expect(format(999960, { minimumSignificantDigits: 3, maximumSignificantDigits: 3, engineeringNotation: true, engineeringNotationThreshold: 1000 }))
+      .toBe('1.00e+6')
+    expect(format(1234567, { maximumSignificantDigits: 2, useCompactNotation: true })).toBe('1.2M')
+    expect(format(999960, { maximumSignificantDigits: 3, useCompactNotation: true })).toBe('1M')
+  })
+
+  it('reads significant digit placeholders in patterns', () => {
+    expect(applyFormatPattern({ value: 1234.5678, pattern: '@@@' })).toBe('1230')
+    expect(applyFormatPattern({ value: 0.01234, pattern: '@@##' })).toBe('0.01234')
+    expect(applyFormatPattern({ value: 1.5, pattern: '@@@@' })).toBe('1.500')
+    expect(applyFormatPattern({ value: 1234567, pattern: '#,@@@' })).toBe('1,230,000')
+    expect(applyFormatPattern({ value: 1234.5678, pattern: '$#,##0.00', config: { maximumSignificantDigits: 3 } })).toBe('$1,230')
+  })
+
+  it('parses what it formats', () => {
+    const config: NumbersConfig = { maximumSignificantDigits: 3 }
+    expect(parseNumberStrict({ value: format(0.000123456, config), config })).toMatchObject({ ok: true, exact: '0.000123' })
+  })
+})
@@ -0,0 +1,85 @@
+import type { NumbersConfig, ParseErrorReason } from '../src/types'
+import { describe, expect, it } from 'bun:test'
+import { formatNumber, parseNumberStrict } from '../src'
+import { accounting } from '../src/presets'
+
+// The reason and offset of a failed parse, or the exact value of a successful one
+function outcome(value: string, config?: NumbersConfig): string | [ParseErrorReason, number] {
+  const result = parseNumberStrict({ value, config })
+  return result.ok ? result.exact : [result.error.reason, result.error.offset]
+}
+
+describe('parseNumberStrict', () => {
+  it('returns the value of well-formed input', () => {
+    expect(parseNumberStrict({ value: '1,234.56' })).toEqual({ ok: true, value: 1234.56, exact: '1234.56' })
+    expect(outcome('  -5 ')).toBe('-5')
+    expect(outcome('.5')).toBe('0.5')
+    expect(outcome('($1,234.56)', accounting)).toBe('-1234.56')
+    expect(outcome('$1,234.50-', { currencySymbol: '$' })).toBe('-1234.50')
+    expect(outcome('1.234,56 €', { locale: 'de-DE', currencySymbol: 'EUR' })).toBe('1234.56')
+    expect(outcome('12,34,567.00', { locale: 'en-IN' })).toBe('1234567.00')
+  })
+
+  it('reads notations back', () => {
+    expect(outcome('1.23e+6')).toBe('1230000')
+    expect(outcome('1.23×10⁻³')).toBe('0.00123')
+    expect(outcome('2.5M', { useCompactNotation: true })).toBe('2500000')
+    expect(outcome('1.5 kHz', { siUnitPrefixes: true, suffixText: 'Hz' })).toBe('1500')
+  })
+
+  it('reports unexpected characters with their offset', () => {
+    expect(parseNumberStrict({ value: '12abc34' })).toEqual({
+      ok: false,
+      error: { reason: 'unexpectedCharacter', offset: 2, character: 'a', message: 'Unexpected character \'a\' at position 2' },
+    })
+    expect(outcome('$5')).toEqual(['unexpectedCharacter', 0])
+    expect(outcome('--5')).toEqual(['unexpectedCharacter', 1])
+    expect(outcome('5 kg kg', { suffixText: ' kg' })).toEqual(['unexpectedCharacter', 5])
+    expect(outcome('($1,234.56', accounting)).toEqual(['unexpectedCharacter', 10])
+  })
+
+  it('reports misplaced group separators', () => {
+    expect(outcome('1,23,4.5')).toEqual(['misplacedGroupSeparator', 4])
+    expect(outcome('1234,567')).toEqual(['misplacedGroupSeparator', 4])
+    expect(outcome(',123')).toEqual(['misplacedGroupSeparator', 0])
+    expect(outcome('12,')).toEqual(['misplacedGroupSeparator', 2])
+    expect(outcome('1.5,0')).toEqual(['misplacedGroupSeparator', 3])
+    expect(outcome('1,234,567', { locale: 'en-IN' })).toEqual(['misplacedGroupSeparator', 1])
+  })
+
+  it('reports multiple decimals, too many decimals and values out of range', () => {
+    expect(outcome('1.2.3')).toEqual(['multipleDecimals', 3])
+    expect(outcome('1,234.567')).toEqual(['tooManyDecimals', 8])
+    expect(outcome('1.5', { decimalPlaces: 0 })).toEqual(['tooManyDecimals', 2])
+    expect(outcome('150', { maximumValue: '100' })).toEqual(['outOfRange', 0])
+    expect(outcome('-$5', { currencySymbol: '$', minimumValue: '0' })).toEqual(['outOfRange', 2])
+    expect(outcome('150', { maximumValue: '100', overrideMinMaxLimits: 'ignore' })).toBe('150')
+    expect(outcome('1e9999999999')).toEqual(['outOfRange', 1])
+    expect(outcome('1e-1000000', { overrideMinMaxLimits: 'ignore' })).toEqual(['outOfRange', 1])
+    expect(parseNumberStrict({ value: '2.5e1001' })).toMatchObject({ ok: false, error: { message: 'Value is out of range (exponents -1000 to 1000) at position 3' } })
+    expect(outcome('1e1000', { overrideMinMaxLimits: 'ignore' })).toBe(`1${'0'.repeat(1000)}`)
+  })
+
+  it('reports empty input and input without digits', () => {
+    expect(outcome('   ')).toEqual(['empty', 3])
+    expect(outcome('$-', { currencySymbol: '$' })).toEqual(['noDigits', 0])
+  })
+
+  it('accepts everything formatNumber writes', () => {
+    const configs: NumbersConfig[] = [
+      {},
+      { locale: 'fr-FR', currencySymbol: 'EUR' },
+      { locale: 'en-IN', currencySymbol: 'INR' },
+      { locale: undefined, digitGroupSeparator: '.', decimalCharacter: ',', suffixText: ' kg' },
+      { negativeSignCharacter: '−', negativePositiveSignPlacement: 's', showPositiveSign: true },
+      accounting,
+    ]
+
+    for (const config of configs) {
+      for (const value of ['0.00', '-7.50', '1234.56', '-98765432.10']) {
+        const formatted = formatNumber({ value, config })
+        expect(outcome(formatted, config)).toBe(value)
+      }
+    }
+  })
+})
@@ -236,4 +236,31 @@ describe('Style Rules', () => {
       document.body.removeChild(element)
     })
   })
+
+  describe('Pattern Colours', () => {
+    it('adds a class for the colour of the pattern section', () => {
+      const element = document.createElement('input')
+      document.body.appendChild(element)
+
+      const instance = new Numbers(element, {
+        styleRules: {
+          pattern: '[Green][>=1000]0;[Red][<0]0;0',
+          colorClasses: { red: 'loss' },
+        },
+      })
+
+      instance.set(1500)
+      expect(element.classList.contains('numbers-green')).toBe(true)
+
+      instance.set(-5)
+      expect(element.classList.contains('loss')).toBe(true)
+      expect(element.classList.contains('numbers-green')).toBe(false)
+
+      instance.set(5)
+      expect(element.classList.contains('loss')).toBe(false)
+      expect(element.classList.contains('numbers-green')).toBe(false)
+
+      document.body.removeChild(element)
+    })
+  })
 })